@@ -0,0 +1,50 @@
+// app/admin/bookings/create/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { actorFor, currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { getProperty } from "@/lib/properties";
+import { BookingConflictError, BookingSchema, createBooking } from "@/lib/bookings";
+
+// Create a booking from the /admin/bookings form. Dates are entered as days;
+// the times are the property's check-in and check-out times.
+export async function POST(request: NextRequest) {
+  const user = await currentUser();
+  if (!user || !can(user.role, "bookings:manage")) {
+    return NextResponse.redirect(new URL("/admin?denied=1", request.url), 303);
+  }
+
+  const form = await request.formData().catch(() => null);
+  const back = new URL("/admin/bookings", request.url);
+  const fail = (error: string) => {
+    back.searchParams.set("error", error);
+    return NextResponse.redirect(back, 303);
+  };
+
+  const property = await getProperty(String(form?.get("propertyId") ?? ""));
+  if (!property) return fail("Choose a property.");
+
+  const guestName = String(form?.get("guestName") ?? "").trim();
+  const parsed = BookingSchema.safeParse({
+    propertyId: property.slug,
+    checkIn: `${form?.get("checkInDate") ?? ""}T${property.checkInFrom}`,
+    checkOut: `${form?.get("checkOutDate") ?? ""}T${property.checkOutBy}`,
+    guests: Number(form?.get("guests")),
+    confirmationCode: String(form?.get("confirmationCode") ?? ""),
+    guestName: guestName || undefined,
+  });
+  if (!parsed.success) {
+    return fail(parsed.error.errors.map(err => err.message).join(" "));
+  }
+
+  try {
+    const booking = await createBooking(parsed.data, actorFor(user));
+    back.searchParams.set("message", `Booking ${booking.confirmationCode} created. Send the guest its invitation link below.`);
+    return NextResponse.redirect(back, 303);
+  } catch (error) {
+    if (error instanceof BookingConflictError) {
+      return fail(`A booking with confirmation code ${parsed.data.confirmationCode} already exists.`);
+    }
+    console.error("Failed to create booking:", { confirmationCode: parsed.data.confirmationCode, error });
+    return fail("The booking couldn't be saved. Please try again.");
+  }
+}
@@ -0,0 +1,50 @@
+// app/admin/bookings/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { actorFor, currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { getProperty } from "@/lib/properties";
+import { fetchCalendar, importCalendar, type CalendarImportReport } from "@/lib/calendar-import";
+import { ICalParseError } from "@/lib/ical";
+
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+const summary = (report: CalendarImportReport) =>
+  `${report.events} events: ${report.created} new, ${report.updated} updated, ${report.unchanged} unchanged, ` +
+  `${report.cancelled} cancelled, ${report.skipped} skipped.`;
+
+// Import a property's calendar from the /admin/bookings form: an uploaded
+// .ics file, or (without one) the property's configured feed
+export async function POST(request: NextRequest) {
+  const user = await currentUser();
+  if (!user || !can(user.role, "bookings:manage")) {
+    return NextResponse.redirect(new URL("/admin?denied=1", request.url), 303);
+  }
+
+  const form = await request.formData().catch(() => null);
+  const back = new URL("/admin/bookings", request.url);
+  const fail = (error: string) => {
+    back.searchParams.set("error", error);
+    return NextResponse.redirect(back, 303);
+  };
+
+  const property = await getProperty(String(form?.get("propertyId") ?? ""));
+  if (!property) return fail("Choose a property.");
+
+  const file = form?.get("file");
+  const upload = file instanceof File && file.size > 0 ? file : null;
+  if (!upload && !property.icalUrl) {
+    return fail(`Choose an .ics file, or add a calendar feed to ${property.name}.`);
+  }
+  if (upload && upload.size > MAX_UPLOAD_BYTES) return fail("That calendar file is too large.");
+
+  try {
+    const text = upload ? await upload.text() : await fetchCalendar(property.icalUrl!);
+    const report = await importCalendar(property, text, upload ? "upload" : property.icalUrl!, actorFor(user));
+    back.searchParams.set("message", `${property.name} imported. ${summary(report)}`);
+    return NextResponse.redirect(back, 303);
+  } catch (error) {
+    if (error instanceof ICalParseError) return fail("That isn't an iCalendar (.ics) file.");
+    console.error("Calendar import failed:", { propertyId: property.slug, error });
+    return fail(upload ? "The calendar couldn't be imported. Please try again." : "The calendar feed couldn't be fetched. Please try again.");
+  }
+}
@@ -0,0 +1,219 @@
+// app/admin/bookings/page.tsx
+import Link from "next/link";
+import dayjs from "dayjs";
+import { requirePermission } from "@/lib/auth";
+import { listProperties } from "@/lib/properties";
+import { invitePath, listBookings } from "@/lib/bookings";
+import { absoluteUrl } from "@/lib/signed-links";
+import { lastCalendarImport } from "@/lib/calendar-import";
+import { bookingPartyProgress } from "@/lib/party";
+
+interface BookingsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// How far back and ahead (by check-in) the list reaches
+const PAST_DAYS = 14;
+const FUTURE_DAYS = 365;
+
+const inputClass = "border border-gray-300 rounded-md px-3 py-2";
+
+export default async function BookingsPage({ searchParams }: BookingsPageProps) {
+  await requirePermission("bookings:manage");
+
+  const params = await searchParams;
+  const message = typeof params.message === "string" ? params.message : undefined;
+  const error = typeof params.error === "string" ? params.error : undefined;
+  const unregisteredOnly = params.unregistered === "1";
+
+  const today = dayjs().startOf("day");
+  const [properties, bookings] = await Promise.all([
+    listProperties(),
+    listBookings(today.subtract(PAST_DAYS, "day").valueOf(), today.add(FUTURE_DAYS, "day").valueOf()),
+  ]);
+  const imports = await Promise.all(properties.map(property => lastCalendarImport(property.slug)));
+  const shown = unregisteredOnly
+    ? bookings.filter(booking => booking.registrationIds.length === 0 && !booking.cancelledAt)
+    : bookings;
+  // Group completeness: everyone in the party, across the lead guest's and co-travellers' registrations
+  const progress = await Promise.all(shown.map(bookingPartyProgress));
+  const propertyName = (slug: string) => properties.find(property => property.slug === slug)?.name ?? slug;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Bookings</h1>
+        <p className="text-sm text-gray-500">
+          Enter a reservation, or import the listing&apos;s calendar, to get its invitation link. The guest registers
+          with the stay details already filled in.
+        </p>
+      </div>
+
+      {message && (
+        <p role="status" className="rounded-md bg-blue-50 border border-blue-200 px-3 py-2 text-sm text-blue-900">
+          {message}
+        </p>
+      )}
+      {error && (
+        <p role="alert" className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-900">{error}</p>
+      )}
+
+      {properties.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Bookings belong to a property. <Link href="/admin/properties" className="text-blue-700 hover:underline">Add a property</Link> first.
+        </p>
+      ) : (
+        <form method="post" action="/admin/bookings/create" className="bg-white rounded-xl shadow p-6 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Property</span>
+              <select name="propertyId" required className={inputClass}>
+                {properties.map(property => (
+                  <option key={property.slug} value={property.slug}>{property.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Check-in</span>
+              <input type="date" name="checkInDate" required className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Check-out</span>
+              <input type="date" name="checkOutDate" required className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Guests</span>
+              <input type="number" name="guests" min={1} max={20} defaultValue={1} required className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Confirmation code</span>
+              <input name="confirmationCode" required placeholder="HMABC12345" className={`${inputClass} uppercase`} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Guest name (optional)</span>
+              <input name="guestName" maxLength={100} className={inputClass} />
+            </label>
+          </div>
+          <p className="mt-3 text-xs text-gray-500">Times are the property&apos;s check-in and check-out times.</p>
+          <button type="submit" className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            Create booking
+          </button>
+        </form>
+      )}
+
+      {properties.length > 0 && (
+        <form
+          method="post"
+          action="/admin/bookings/import"
+          encType="multipart/form-data"
+          className="bg-white rounded-xl shadow p-6 text-sm space-y-4"
+        >
+          <h2 className="text-lg font-semibold text-gray-900">Import calendar</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Property</span>
+              <select name="propertyId" required className={inputClass}>
+                {properties.map(property => (
+                  <option key={property.slug} value={property.slug}>{property.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">.ics file</span>
+              <input type="file" name="file" accept=".ics,text/calendar" className="text-sm" />
+            </label>
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              Import
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Without a file, the property&apos;s calendar feed is fetched. Reservations are matched on the event UID,
+            so importing again updates them; ones that disappear from the calendar are marked cancelled.
+          </p>
+          <ul className="text-xs text-gray-600 space-y-1">
+            {properties.map((property, i) => (
+              <li key={property.slug}>
+                {property.name}: {imports[i]
+                  ? `last imported ${dayjs(imports[i].at).format("YYYY-MM-DD HH:mm")} (${imports[i].created} new, ${imports[i].cancelled} cancelled)`
+                  : "never imported"}
+                {property.icalUrl ? "" : ", no feed configured"}
+              </li>
+            ))}
+          </ul>
+        </form>
+      )}
+
+      <section className="bg-white rounded-xl shadow overflow-x-auto">
+        <div className="px-4 pt-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Bookings <span className="text-sm font-normal text-gray-500">({shown.length})</span>
+          </h2>
+          <Link
+            href={unregisteredOnly ? "/admin/bookings" : "/admin/bookings?unregistered=1"}
+            className="text-sm text-blue-700 hover:underline"
+          >
+            {unregisteredOnly ? "Show all" : "Show unregistered only"}
+          </Link>
+        </div>
+        <table className="min-w-full text-sm mt-2">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-medium">Check-in</th>
+              <th className="px-4 py-3 font-medium">Booking</th>
+              <th className="px-4 py-3 font-medium">Property</th>
+              <th className="px-4 py-3 font-medium">Party</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3 font-medium">Invitation link</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {shown.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-gray-500">No bookings.</td>
+              </tr>
+            )}
+            {shown.map((booking, i) => (
+              <tr key={booking.id} className="align-top">
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {dayjs(booking.checkIn).format("YYYY-MM-DD HH:mm")}
+                  <div className="text-gray-500">to {dayjs(booking.checkOut).format("YYYY-MM-DD HH:mm")}</div>
+                </td>
+                <td className="px-4 py-3">
+                  <div className="font-mono">{booking.confirmationCode ?? "-"}</div>
+                  {booking.guestName && <div className="text-gray-500">{booking.guestName}</div>}
+                  {booking.icalUid && <div className="text-xs text-gray-400">From calendar</div>}
+                </td>
+                <td className="px-4 py-3">{propertyName(booking.propertyId)}</td>
+                <td className="px-4 py-3">{booking.guests ?? "-"}</td>
+                <td className="px-4 py-3">
+                  {booking.cancelledAt && (
+                    <div className="text-red-700">Cancelled {dayjs(booking.cancelledAt).format("YYYY-MM-DD")}</div>
+                  )}
+                  {booking.registrationIds.length === 0 ? (
+                    !booking.cancelledAt && <span className="text-amber-700">Not registered</span>
+                  ) : (
+                    <>
+                      <div className={progress[i].registered < progress[i].size ? "text-amber-700" : "text-green-700"}>
+                        {progress[i].registered} of {progress[i].size} registered
+                      </div>
+                      {booking.registrationIds.map(id => (
+                        <div key={id}>
+                          <Link href={`/admin/registrations/${id}`} className="text-blue-700 hover:underline">Registration</Link>
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </td>
+                <td className="px-4 py-3 font-mono text-xs break-all">
+                  {booking.cancelledAt
+                    ? "-"
+                    : dayjs(booking.checkOut).isAfter(dayjs()) ? absoluteUrl(invitePath(booking)) : "Expired"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+// app/admin/checkin/[id]/confirm/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { auditContext } from "@/lib/audit";
+import { actorFor, currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { checkInPath, confirmArrival } from "@/lib/arrivals";
+
+// Mark the guest as physically checked in. Middleware limits this path to
+// roles with `checkin:confirm`.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const user = await currentUser();
+  if (!user || !can(user.role, "checkin:confirm")) {
+    return NextResponse.redirect(new URL("/admin?denied=1", request.url), 303);
+  }
+
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+    return NextResponse.json({ error: "Invalid ID format" }, { status: 400 });
+  }
+
+  try {
+    const arrival = await confirmArrival(id, auditContext(request.headers, actorFor(user)));
+    if (!arrival) return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+  } catch (error) {
+    console.error("Failed to confirm arrival:", { id, error });
+    return NextResponse.json({ error: "Failed to confirm arrival" }, { status: 500 });
+  }
+
+  return NextResponse.redirect(new URL(`${checkInPath(id)}?confirmed=1`, request.url), 303);
+}
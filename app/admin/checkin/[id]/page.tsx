@@ -0,0 +1,145 @@
+// app/admin/checkin/[id]/page.tsx
+import Link from "next/link";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import Image from "next/image";
+import dayjs from "dayjs";
+import { auditContext, recordAudit } from "@/lib/audit";
+import { actorFor, requirePermission } from "@/lib/auth";
+import { getSubmission } from "@/lib/submissions";
+
+interface CheckInPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Opened from the guest's QR code: compare the person at the door with their
+// selfie and ID, then confirm the arrival.
+export default async function CheckInPage({ params, searchParams }: CheckInPageProps) {
+  const user = await requirePermission("checkin:confirm");
+
+  const { id } = await params;
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+    notFound();
+  }
+
+  const submission = await getSubmission(id);
+  await recordAudit(auditContext(await headers(), actorFor(user)), "read", id, submission ? "success" : "not_found", "checkin");
+  if (!submission) {
+    notFound();
+  }
+
+  const { data, arrival } = submission;
+  const query = await searchParams;
+  const checkIn = dayjs(data.checkIn);
+  const notToday = !checkIn.isSame(dayjs(), "day");
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <Link href="/admin/today" className="text-sm text-blue-700 hover:underline">&larr; Today</Link>
+        <h1 className="text-2xl font-bold text-gray-900 mt-1">Check in {data.fullName}</h1>
+        <p className="text-sm text-gray-500">
+          {checkIn.format("ddd D MMM HH:mm")} &ndash; {dayjs(data.checkOut).format("ddd D MMM HH:mm")} &middot;{" "}
+          {data.guests} {data.guests === 1 ? "guest" : "guests"}
+          {submission.propertyId && <> &middot; {submission.propertyId}</>}
+        </p>
+      </div>
+
+      {query.confirmed && arrival && (
+        <p role="status" className="rounded-md bg-green-50 border border-green-200 px-4 py-3 text-sm text-green-800">
+          Arrival confirmed.
+        </p>
+      )}
+      {notToday && !arrival && (
+        <p role="alert" className="rounded-md bg-amber-50 border border-amber-200 px-4 py-3 text-sm text-amber-800">
+          This registration is for check-in on {checkIn.format("D MMMM YYYY")}, not today.
+        </p>
+      )}
+
+      <section className="bg-white rounded-xl shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Compare with the guest</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {(["selfie", "idImage"] as const).map(field => (
+            <figure key={field} className="text-center">
+              {data[field] ? (
+                <Image
+                  unoptimized
+                  width={320}
+                  height={320}
+                  src={`/admin/registrations/${id}/images/${field}`}
+                  alt={field === "selfie" ? "Selfie" : "ID / Passport"}
+                  className="mx-auto h-auto w-auto max-h-80 rounded-lg border border-gray-200 bg-white object-contain"
+                />
+              ) : (
+                <div className="h-40 flex items-center justify-center rounded-lg border border-dashed border-gray-300 text-xs text-gray-500">
+                  Not on file
+                </div>
+              )}
+              <figcaption className="mt-2 text-xs text-gray-500">{field === "selfie" ? "Selfie" : "ID / Passport"}</figcaption>
+            </figure>
+          ))}
+        </div>
+        <dl className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="font-medium text-gray-700">ID / Passport</dt>
+            <dd className="text-gray-900">{data.idOrPassport}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-700">Nationality</dt>
+            <dd className="text-gray-900">{data.nationality}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-700">Phone</dt>
+            <dd className="text-gray-900">{data.phone}</dd>
+          </div>
+        </dl>
+
+        {data.companions.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">The rest of the party</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {data.companions.map((companion, index) => (
+                <figure key={index} className="text-center">
+                  {companion.idImage ? (
+                    <Image
+                      unoptimized
+                      width={320}
+                      height={320}
+                      src={`/admin/registrations/${id}/images/companions.${index}.idImage`}
+                      alt={`ID / Passport of ${companion.fullName}`}
+                      className="mx-auto h-auto w-auto max-h-48 rounded-lg border border-gray-200 bg-white object-contain"
+                    />
+                  ) : (
+                    <div className="h-24 flex items-center justify-center rounded-lg border border-dashed border-gray-300 text-xs text-gray-500">
+                      Not on file
+                    </div>
+                  )}
+                  <figcaption className="mt-2 text-xs text-gray-500">
+                    {companion.fullName} - {companion.idOrPassport}
+                    {companion.guardianConsent && <span className="block text-blue-700">Under 18</span>}
+                  </figcaption>
+                </figure>
+              ))}
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white rounded-xl shadow p-6">
+        {arrival ? (
+          <p className="text-sm text-gray-700">
+            Arrived {dayjs(arrival.at).format("YYYY-MM-DD HH:mm")}, verified by {arrival.by}.
+          </p>
+        ) : (
+          <form method="post" action={`/admin/checkin/${id}/confirm`} className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-gray-700">Only confirm once the guest matches their selfie and ID document.</p>
+            <button type="submit" className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700">
+              Confirm arrival
+            </button>
+          </form>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+// app/admin/export/download/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import dayjs from "dayjs";
+import { auditContext } from "@/lib/audit";
+import { actorFor, currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportRegister,
+  isExportColumn,
+} from "@/lib/register-export";
+
+const ExportQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "from must be YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "to must be YYYY-MM-DD"),
+  property: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "Invalid property ID").optional(),
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  columns: z.array(z.string()).transform(columns => columns.filter(isExportColumn)),
+}).refine(query => query.from <= query.to, { message: "from must not be after to", path: ["to"] });
+
+// The lodger register for a check-in range, as a download. Middleware limits
+// this path to roles with `register:export`; every exported record is audited.
+export async function GET(request: NextRequest) {
+  const user = await currentUser();
+  if (!user || !can(user.role, "register:export")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const parsed = ExportQuerySchema.safeParse({
+    from: searchParams.get("from") ?? "",
+    to: searchParams.get("to") ?? "",
+    property: searchParams.get("property")?.trim() || undefined,
+    format: searchParams.get("format") || undefined,
+    columns: searchParams.getAll("columns"),
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid export request", details: parsed.error.errors.map(e => ({ field: e.path.join("."), message: e.message })) },
+      { status: 400 }
+    );
+  }
+
+  const { from, to, property, format, columns } = parsed.data;
+  try {
+    const file = await exportRegister({
+      from: dayjs(from).startOf("day").valueOf(),
+      to: dayjs(to).endOf("day").valueOf(),
+      propertyId: property,
+      format,
+      columns: columns.length > 0 ? columns : DEFAULT_EXPORT_COLUMNS,
+      audit: auditContext(request.headers, actorFor(user)),
+    });
+
+    return new Response(file.body, {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "private, no-cache, no-store, must-revalidate",
+      },
+    });
+  } catch (error) {
+    console.error("Register export error:", error);
+    return NextResponse.json({ error: "Failed to export register" }, { status: 500 });
+  }
+}
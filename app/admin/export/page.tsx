@@ -0,0 +1,134 @@
+// app/admin/export/page.tsx
+import dayjs from "dayjs";
+import { requirePermission } from "@/lib/auth";
+import {
+  columnHeader,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  IMAGE_COLUMNS,
+} from "@/lib/register-export";
+import { listProperties, type Property } from "@/lib/properties";
+
+const FORMAT_LABELS = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON",
+} as const;
+
+function PropertySelect({ properties }: { properties: Property[] }) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="font-medium text-gray-700">Property</span>
+      <select name="property" defaultValue="" className="border border-gray-300 rounded-md px-3 py-2">
+        <option value="">All properties</option>
+        {properties.map(property => (
+          <option key={property.slug} value={property.slug}>{property.name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default async function ExportPage() {
+  await requirePermission("register:export");
+  const properties = await listProperties();
+
+  // Default to last month, the usual request from officials
+  const lastMonth = dayjs().subtract(1, "month");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Export register</h1>
+        <p className="text-sm text-gray-500">
+          Every registration with a check-in in the range. Each row includes a SHA-256 of the stored record; XLSX and
+          JSON add a manifest of those hashes. Exports are recorded in each guest&apos;s access history.
+        </p>
+      </div>
+
+      <form method="get" action="/admin/export/download" className="bg-white rounded-xl shadow p-6 space-y-6 text-sm">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Check-in from</span>
+            <input
+              type="date"
+              name="from"
+              required
+              defaultValue={lastMonth.startOf("month").format("YYYY-MM-DD")}
+              className="border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Check-in to</span>
+            <input
+              type="date"
+              name="to"
+              required
+              defaultValue={lastMonth.endOf("month").format("YYYY-MM-DD")}
+              className="border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <PropertySelect properties={properties} />
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Format</span>
+            <select name="format" defaultValue="csv" className="border border-gray-300 rounded-md px-3 py-2">
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <fieldset>
+          <legend className="font-medium text-gray-700 mb-2">Columns</legend>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {EXPORT_COLUMNS.map(column => (
+              <label key={column} className="flex items-center gap-2">
+                <input type="checkbox" name="columns" value={column} defaultChecked={DEFAULT_EXPORT_COLUMNS.includes(column)} />
+                <span>
+                  {columnHeader(column)}
+                  {IMAGE_COLUMNS.includes(column) && <span className="text-gray-400"> (hash)</span>}
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div className="flex justify-end">
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Download</button>
+        </div>
+      </form>
+
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Monthly register PDF</h2>
+        <p className="text-sm text-gray-500">
+          A bound register for inspections: cover page, the register as a table and, optionally, each guest&apos;s
+          signature.
+        </p>
+      </div>
+
+      <form method="get" action="/admin/export/register-pdf" target="_blank" className="bg-white rounded-xl shadow p-6 text-sm">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Month</span>
+            <input
+              type="month"
+              name="month"
+              required
+              defaultValue={lastMonth.format("YYYY-MM")}
+              className="border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <PropertySelect properties={properties} />
+          <label className="flex items-center gap-2 py-2">
+            <input type="checkbox" name="signatures" value="1" />
+            <span>Include signatures</span>
+          </label>
+          <div className="flex justify-end">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Open PDF</button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
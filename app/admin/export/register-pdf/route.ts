@@ -0,0 +1,62 @@
+// app/admin/export/register-pdf/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import dayjs from "dayjs";
+import { auditContext } from "@/lib/audit";
+import { actorFor, currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { buildRegisterPdf } from "@/lib/register-pdf";
+
+const RegisterPdfQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "month must be YYYY-MM"),
+  property: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "Invalid property ID").optional(),
+  signatures: z.boolean(),
+});
+
+// The bound monthly register as one PDF. Middleware limits this path to
+// roles with `register:export`; every included record is audited.
+export async function GET(request: NextRequest) {
+  const user = await currentUser();
+  if (!user || !can(user.role, "register:export")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const parsed = RegisterPdfQuerySchema.safeParse({
+    month: searchParams.get("month") ?? "",
+    property: searchParams.get("property")?.trim() || undefined,
+    signatures: searchParams.get("signatures") === "1",
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid register request", details: parsed.error.errors.map(e => ({ field: e.path.join("."), message: e.message })) },
+      { status: 400 }
+    );
+  }
+
+  const { month, property, signatures } = parsed.data;
+  try {
+    const start = dayjs(`${month}-01`);
+    const pdfBytes = await buildRegisterPdf({
+      from: start.startOf("month").valueOf(),
+      to: start.endOf("month").valueOf(),
+      propertyId: property,
+      includeSignatures: signatures,
+      generatedBy: user.username,
+      audit: auditContext(request.headers, actorFor(user)),
+    });
+
+    const filename = `lodger-register-${property ? `${property}-` : ""}${month}.pdf`;
+    return new Response(new Blob([new Uint8Array(pdfBytes)], { type: "application/pdf" }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}"`,
+        "Cache-Control": "private, no-cache, no-store, must-revalidate",
+      },
+    });
+  } catch (error) {
+    console.error("Register PDF error:", error);
+    return NextResponse.json({ error: "Failed to generate register PDF" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+// app/admin/layout.tsx
+import type { Metadata } from "next";
+import Link from "next/link";
+import { currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+
+export const metadata: Metadata = {
+  title: "Admin",
+  robots: { index: false, follow: false },
+};
+
+// Guest data changes constantly and must never be cached between admins
+export const dynamic = "force-dynamic";
+
+export default async function AdminLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  const user = await currentUser();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+          <Link href="/admin" className="text-lg font-semibold text-gray-900">
+            Guest Register
+          </Link>
+          {user && (
+            <nav className="flex items-center gap-6 text-sm text-gray-600">
+              <Link href="/admin" className="hover:text-gray-900">Registrations</Link>
+              <Link href="/admin/today" className="hover:text-gray-900">Today</Link>
+              {can(user.role, "bookings:manage") && (
+                <Link href="/admin/bookings" className="hover:text-gray-900">Bookings</Link>
+              )}
+              {can(user.role, "register:export") && (
+                <Link href="/admin/export" className="hover:text-gray-900">Export</Link>
+              )}
+              {can(user.role, "requests:review") && (
+                <Link href="/admin/requests" className="hover:text-gray-900">Requests</Link>
+              )}
+              {can(user.role, "properties:manage") && (
+                <Link href="/admin/properties" className="hover:text-gray-900">Properties</Link>
+              )}
+              {can(user.role, "policies:manage") && (
+                <Link href="/admin/policies" className="hover:text-gray-900">Policies</Link>
+              )}
+              <span className="text-gray-400">{user.username} ({user.role})</span>
+              <form method="post" action="/api/auth/logout">
+                <button type="submit" className="hover:text-gray-900">Sign out</button>
+              </form>
+            </nav>
+          )}
+        </div>
+      </header>
+      <main className="max-w-7xl mx-auto px-4 py-8">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// app/admin/login/page.tsx
+import { redirect } from "next/navigation";
+import { currentUser } from "@/lib/auth";
+import { safeNextPath } from "@/lib/session";
+
+interface LoginPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const ERRORS: Record<string, string> = {
+  invalid: "Incorrect user name, password or code.",
+  totp_required: "Enter the 6-digit code from your authenticator app.",
+  rate_limited: "Too many attempts. Please wait a few minutes and try again.",
+  unavailable: "Sign-in is not configured on this server.",
+};
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const params = await searchParams;
+  const next = safeNextPath(params.next);
+  const error = typeof params.error === "string" ? ERRORS[params.error] : undefined;
+
+  if (await currentUser()) redirect(next);
+
+  return (
+    <div className="max-w-sm mx-auto mt-12 bg-white rounded-xl shadow p-6">
+      <h1 className="text-xl font-semibold text-gray-900 mb-6">Staff sign in</h1>
+
+      {error && (
+        <p role="alert" className="mb-4 rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-800">
+          {error}
+        </p>
+      )}
+
+      <form method="post" action="/api/auth/login" className="space-y-4 text-sm">
+        <input type="hidden" name="next" value={next} />
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">User name</span>
+          <input name="username" autoComplete="username" required className="border border-gray-300 rounded-md px-3 py-2" />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Password</span>
+          <input type="password" name="password" autoComplete="current-password" required className="border border-gray-300 rounded-md px-3 py-2" />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Authentication code</span>
+          <input
+            name="code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            pattern="[0-9 ]*"
+            placeholder="Only if two-factor is enabled"
+            className="border border-gray-300 rounded-md px-3 py-2"
+          />
+        </label>
+        <button type="submit" className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Sign in
+        </button>
+      </form>
+    </div>
+  );
+}
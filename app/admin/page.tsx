@@ -0,0 +1,202 @@
+// app/admin/page.tsx
+import Link from "next/link";
+import { headers } from "next/headers";
+import dayjs from "dayjs";
+import { auditContext, recordAuditListing } from "@/lib/audit";
+import { actorFor, requirePermission } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { listProperties } from "@/lib/properties";
+import { searchSubmissions, stayStatus, STAY_STATUSES, type StayStatus } from "@/lib/search";
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+interface AdminPageProps {
+  searchParams: Promise<SearchParams>;
+}
+
+const STATUS_LABELS: Record<StayStatus, string> = {
+  "upcoming": "Upcoming",
+  "in-house": "In house",
+  "checked-out": "Checked out",
+  "legal-hold": "Legal hold",
+};
+
+const STATUS_STYLES: Record<StayStatus, string> = {
+  "upcoming": "bg-blue-100 text-blue-800",
+  "in-house": "bg-green-100 text-green-800",
+  "checked-out": "bg-gray-100 text-gray-700",
+  "legal-hold": "bg-amber-100 text-amber-800",
+};
+
+function param(params: SearchParams, name: string): string {
+  const value = params[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() ?? "";
+}
+
+// YYYY-MM-DD from the date inputs; `to` covers the whole day
+function dateParam(value: string, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  const date = dayjs(value);
+  if (!date.isValid()) return undefined;
+  return (endOfDay ? date.endOf("day") : date.startOf("day")).valueOf();
+}
+
+export default async function AdminPage({ searchParams }: AdminPageProps) {
+  const user = await requirePermission("arrivals:read");
+  // Cleaners get the arrivals view: stay dates and party size, no guest identity
+  const showGuests = can(user.role, "registrations:read");
+
+  const params = await searchParams;
+  const filters = {
+    from: param(params, "from"),
+    to: param(params, "to"),
+    nationality: param(params, "nationality"),
+    property: param(params, "property"),
+    status: param(params, "status"),
+    q: param(params, "q"),
+  };
+
+  const result = await searchSubmissions({
+    checkInFrom: dateParam(filters.from),
+    checkInTo: dateParam(filters.to, true),
+    nationality: (showGuests && filters.nationality) || undefined,
+    propertyId: filters.property || undefined,
+    status: STAY_STATUSES.includes(filters.status as StayStatus) ? (filters.status as StayStatus) : undefined,
+    query: (showGuests && filters.q) || undefined,
+    page: Number(param(params, "page")) || 1,
+  });
+
+  const properties = await listProperties();
+
+  // Listing shows names and contact details, so it counts as access
+  const audit = auditContext(await headers(), actorFor(user));
+  const detail = showGuests ? "admin-list" : "arrivals";
+  await recordAuditListing(audit, "read", result.items.map(record => record.id), "success", detail);
+
+  const pageHref = (page: number) => {
+    const query = new URLSearchParams(Object.entries(filters).filter(([, value]) => value));
+    query.set("page", String(page));
+    return `/admin?${query}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {params.denied && (
+        <p role="alert" className="rounded-md bg-amber-50 border border-amber-200 px-4 py-3 text-sm text-amber-800">
+          Your role does not have access to that page.
+        </p>
+      )}
+
+      <div className="flex items-baseline justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{showGuests ? "Registrations" : "Arrivals"}</h1>
+        <span className="text-sm text-gray-500">{result.total} found</span>
+      </div>
+
+      {/* Filters - a plain GET form so results are linkable */}
+      <form method="get" className="bg-white rounded-xl shadow p-4 grid grid-cols-1 md:grid-cols-6 gap-4 text-sm">
+        {showGuests && (
+          <label className="md:col-span-2 flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Search</span>
+            <input name="q" defaultValue={filters.q} placeholder="Name, email or ID number" className="border border-gray-300 rounded-md px-3 py-2" />
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Check-in from</span>
+          <input type="date" name="from" defaultValue={filters.from} className="border border-gray-300 rounded-md px-3 py-2" />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Check-in to</span>
+          <input type="date" name="to" defaultValue={filters.to} className="border border-gray-300 rounded-md px-3 py-2" />
+        </label>
+        {showGuests && (
+          <label className="flex flex-col gap-1">
+            <span className="font-medium text-gray-700">Nationality</span>
+            <input name="nationality" defaultValue={filters.nationality} className="border border-gray-300 rounded-md px-3 py-2" />
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Status</span>
+          <select name="status" defaultValue={filters.status} className="border border-gray-300 rounded-md px-3 py-2">
+            <option value="">Any</option>
+            {STAY_STATUSES.map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="md:col-span-2 flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Property</span>
+          <select name="property" defaultValue={filters.property} className="border border-gray-300 rounded-md px-3 py-2">
+            <option value="">All properties</option>
+            {properties.map(property => (
+              <option key={property.slug} value={property.slug}>{property.name}</option>
+            ))}
+          </select>
+        </label>
+        <div className="md:col-span-4 flex items-end justify-end gap-3">
+          <Link href="/admin" className="px-4 py-2 text-gray-600 hover:text-gray-900">Clear</Link>
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Apply</button>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-xl shadow overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              {showGuests && <th className="px-4 py-3 font-medium">Guest</th>}
+              {showGuests && <th className="px-4 py-3 font-medium">Nationality</th>}
+              <th className="px-4 py-3 font-medium">Check-in</th>
+              <th className="px-4 py-3 font-medium">Check-out</th>
+              <th className="px-4 py-3 font-medium">Guests</th>
+              <th className="px-4 py-3 font-medium">Property</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {result.items.map(record => {
+              const status = stayStatus(record);
+              return (
+                <tr key={record.id} className="hover:bg-gray-50">
+                  {showGuests && (
+                    <td className="px-4 py-3">
+                      <Link href={`/admin/registrations/${record.id}`} className="font-medium text-blue-700 hover:underline">
+                        {record.data.fullName}
+                      </Link>
+                      <div className="text-gray-500">{record.data.email}</div>
+                    </td>
+                  )}
+                  {showGuests && <td className="px-4 py-3 text-gray-700">{record.data.nationality}</td>}
+                  <td className="px-4 py-3 text-gray-700">{dayjs(record.data.checkIn).format("YYYY-MM-DD HH:mm")}</td>
+                  <td className="px-4 py-3 text-gray-700">{dayjs(record.data.checkOut).format("YYYY-MM-DD HH:mm")}</td>
+                  <td className="px-4 py-3 text-gray-700">{record.data.guests}</td>
+                  <td className="px-4 py-3 text-gray-700">{record.propertyId ?? "-"}</td>
+                  <td className="px-4 py-3">
+                    <span className={`inline-block rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}>
+                      {STATUS_LABELS[status]}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+            {result.items.length === 0 && (
+              <tr>
+                <td colSpan={showGuests ? 7 : 5} className="px-4 py-8 text-center text-gray-500">No registrations match these filters.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {result.pageCount > 1 && (
+        <nav className="flex items-center justify-between text-sm">
+          {result.page > 1 ? (
+            <Link href={pageHref(result.page - 1)} className="text-blue-700 hover:underline">Previous</Link>
+          ) : <span />}
+          <span className="text-gray-500">Page {result.page} of {result.pageCount}</span>
+          {result.page < result.pageCount ? (
+            <Link href={pageHref(result.page + 1)} className="text-blue-700 hover:underline">Next</Link>
+          ) : <span />}
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+// app/admin/policies/page.tsx
+import dayjs from "dayjs";
+import { requirePermission } from "@/lib/auth";
+import { currentPolicy, POLICY_KINDS, POLICY_LABELS, policyHistory } from "@/lib/policies";
+
+interface PoliciesPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const inputClass = "border border-gray-300 rounded-md px-3 py-2";
+
+export default async function PoliciesPage({ searchParams }: PoliciesPageProps) {
+  await requirePermission("policies:manage");
+
+  const params = await searchParams;
+  const message = typeof params.message === "string" ? params.message : undefined;
+
+  const policies = await Promise.all(POLICY_KINDS.map(async kind => ({
+    kind,
+    current: await currentPolicy(kind),
+    history: await policyHistory(kind),
+  })));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Policies</h1>
+        <p className="text-sm text-gray-500">
+          Guests accept the current version of each policy when they register, and the registration records the
+          version and its SHA-256. Publishing creates a new version; earlier versions stay as they were.
+        </p>
+      </div>
+
+      {message && (
+        <p role="status" className="rounded-md bg-blue-50 border border-blue-200 px-3 py-2 text-sm text-blue-900">
+          {message}
+        </p>
+      )}
+
+      {policies.map(({ kind, current, history }) => (
+        <section key={kind} className="bg-white rounded-xl shadow p-6 space-y-4 text-sm">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{POLICY_LABELS[kind]}</h2>
+            <p className="text-gray-500">
+              {current
+                ? `Version ${current.version}, published ${dayjs(current.publishedAt).format("YYYY-MM-DD HH:mm")} by ${current.publishedBy}`
+                : "Not published - guests are not asked to accept it."}
+            </p>
+          </div>
+
+          <form method="post" action="/admin/policies/publish" className="space-y-3">
+            <input type="hidden" name="kind" value={kind} />
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Title</span>
+              <input name="title" required maxLength={100} defaultValue={current?.title} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Text</span>
+              <textarea name="body" required rows={6} defaultValue={current?.body} className={inputClass} />
+            </label>
+            <div className="flex justify-end">
+              <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                Publish new version
+              </button>
+            </div>
+          </form>
+
+          {history.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-gray-700">Version history</summary>
+              <table className="mt-2 min-w-full">
+                <tbody className="divide-y divide-gray-100">
+                  {history.map(version => (
+                    <tr key={version.version} className="align-top">
+                      <td className="py-2 pr-4">v{version.version}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{dayjs(version.publishedAt).format("YYYY-MM-DD HH:mm")}</td>
+                      <td className="py-2 pr-4 text-gray-600">{version.publishedBy}</td>
+                      <td className="py-2 font-mono text-xs break-all text-gray-500">{version.sha256}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+// app/admin/policies/publish/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { actorFor, currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { POLICY_KINDS, POLICY_LABELS, publishPolicy } from "@/lib/policies";
+
+const PublishSchema = z.object({
+  kind: z.enum(POLICY_KINDS),
+  title: z.string().trim().min(2, "A title is required").max(100, "The title must be less than 100 characters"),
+  body: z.string().trim().min(10, "The policy text is required").max(20000, "The policy text is too long"),
+});
+
+// Publish a new policy version from the /admin/policies form
+export async function POST(request: NextRequest) {
+  const user = await currentUser();
+  if (!user || !can(user.role, "policies:manage")) {
+    return NextResponse.redirect(new URL("/admin?denied=1", request.url), 303);
+  }
+
+  const form = await request.formData().catch(() => null);
+  const back = new URL("/admin/policies", request.url);
+
+  const parsed = PublishSchema.safeParse({
+    kind: form?.get("kind"),
+    title: String(form?.get("title") ?? ""),
+    body: String(form?.get("body") ?? ""),
+  });
+  if (!parsed.success) {
+    back.searchParams.set("message", parsed.error.errors.map(err => err.message).join(" "));
+    return NextResponse.redirect(back, 303);
+  }
+
+  const { kind, title, body } = parsed.data;
+  try {
+    const policy = await publishPolicy(kind, title, body, actorFor(user));
+    back.searchParams.set("message", `${POLICY_LABELS[kind]} is at version ${policy.version}.`);
+  } catch (error) {
+    console.error("Failed to publish policy:", { kind, error });
+    back.searchParams.set("message", "The policy couldn't be published. Please try again.");
+  }
+  return NextResponse.redirect(back, 303);
+}
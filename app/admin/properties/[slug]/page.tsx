@@ -0,0 +1,123 @@
+// app/admin/properties/[slug]/page.tsx
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { requirePermission } from "@/lib/auth";
+import { DEFAULT_TIMEZONE, getProperty, type Property } from "@/lib/properties";
+import { CUSTOM_FIELD_TYPES } from "@/lib/custom-fields";
+
+interface PropertyPageProps {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const inputClass = "border border-gray-300 rounded-md px-3 py-2";
+
+function Input({ label, hint, ...props }: { label: string; hint?: string } & React.InputHTMLAttributes<HTMLInputElement>) {
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="font-medium text-gray-700">{label}</span>
+      <input required className={inputClass} {...props} />
+      {hint && <span className="text-xs text-gray-500">{hint}</span>}
+    </label>
+  );
+}
+
+const CUSTOM_FIELDS_EXAMPLE = JSON.stringify(
+  [
+    { key: "vehicleReg", label: "Vehicle registration", type: "text", help: "For the parking permit" },
+    { key: "purpose", label: "Purpose of visit", type: "select", required: true, options: ["Leisure", "Business"] },
+  ],
+  null,
+  2
+);
+
+// /admin/properties/new adds a property; any other slug edits that one
+export default async function PropertyPage({ params, searchParams }: PropertyPageProps) {
+  await requirePermission("properties:manage");
+
+  const { slug } = await params;
+  const query = await searchParams;
+  const error = typeof query.error === "string" ? query.error : undefined;
+
+  const creating = slug === "new";
+  const property: Partial<Property> | null = creating ? {} : await getProperty(slug);
+  if (!property) notFound();
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <Link href="/admin/properties" className="text-sm text-blue-700 hover:underline">&larr; Properties</Link>
+        <h1 className="text-2xl font-bold text-gray-900">{creating ? "Add property" : property.name}</h1>
+      </div>
+
+      {error && (
+        <p role="alert" className="rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-900">{error}</p>
+      )}
+
+      <form method="post" action="/admin/properties/save" className="bg-white rounded-xl shadow p-6 space-y-4 text-sm">
+        <input type="hidden" name="mode" value={creating ? "create" : "update"} />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {creating ? (
+            <Input
+              label="Slug"
+              name="slug"
+              pattern="[a-z0-9]+(-[a-z0-9]+)*"
+              hint="Used in the registration link, e.g. sea-point-loft. Can't be changed later."
+            />
+          ) : (
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Slug</span>
+              <input name="slug" value={property.slug} readOnly className={`${inputClass} bg-gray-50 text-gray-500`} />
+            </label>
+          )}
+          <Input label="Name" name="name" defaultValue={property.name} hint="As guests know the listing." />
+          <Input label="Legal entity" name="legalEntity" defaultValue={property.legalEntity} hint="The host business named on the PDF." />
+          <Input label="Address" name="address" defaultValue={property.address} />
+          <Input label="Contact email" name="contactEmail" type="email" defaultValue={property.contactEmail} />
+          <Input label="Contact phone" name="contactPhone" type="tel" defaultValue={property.contactPhone} hint="Also used for the WhatsApp link." />
+          <Input label="Time zone" name="timezone" defaultValue={property.timezone ?? DEFAULT_TIMEZONE} />
+          <Input
+            label="Calendar feed (optional)"
+            name="icalUrl"
+            type="url"
+            required={false}
+            defaultValue={property.icalUrl}
+            hint="The listing's iCal export link. Its reservations are imported as bookings."
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="Check-in from" name="checkInFrom" type="time" defaultValue={property.checkInFrom ?? "14:00"} />
+            <Input label="Check-out by" name="checkOutBy" type="time" defaultValue={property.checkOutBy ?? "10:00"} />
+          </div>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Check-in instructions</span>
+          <textarea name="checkInInstructions" rows={5} defaultValue={property.checkInInstructions} className={inputClass} />
+          <span className="text-xs text-gray-500">Shown to guests once they have registered: key collection, parking, access codes.</span>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Custom fields</span>
+          <textarea
+            name="customFields"
+            rows={8}
+            defaultValue={property.customFields?.length ? JSON.stringify(property.customFields, null, 2) : ""}
+            placeholder={CUSTOM_FIELDS_EXAMPLE}
+            className={`${inputClass} font-mono text-xs`}
+          />
+          <span className="text-xs text-gray-500">
+            Extra questions on this property&apos;s registration form, as a JSON list. Each has a <code>key</code>,{" "}
+            <code>label</code>, <code>type</code> ({CUSTOM_FIELD_TYPES.join(", ")}), optional <code>required</code>{" "}
+            and <code>help</code>, and <code>options</code> for a select. File fields take a PNG, JPEG or PDF. Answers
+            keep the label they were asked with, so changing a field doesn&apos;t alter past registrations.
+          </span>
+        </label>
+
+        <div className="flex justify-end">
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">Save</button>
+        </div>
+      </form>
+    </div>
+  );
+}
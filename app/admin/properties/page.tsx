@@ -0,0 +1,79 @@
+// app/admin/properties/page.tsx
+import Link from "next/link";
+import { requirePermission } from "@/lib/auth";
+import { listProperties } from "@/lib/properties";
+import { absoluteUrl } from "@/lib/signed-links";
+
+interface PropertiesPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function PropertiesPage({ searchParams }: PropertiesPageProps) {
+  await requirePermission("properties:manage");
+
+  const params = await searchParams;
+  const message = typeof params.message === "string" ? params.message : undefined;
+  const properties = await listProperties();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Properties</h1>
+          <p className="text-sm text-gray-500">
+            Each listing has its own registration link. Its host details appear on the guest&apos;s PDF and success page.
+          </p>
+        </div>
+        <Link href="/admin/properties/new" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+          Add property
+        </Link>
+      </div>
+
+      {message && (
+        <p role="status" className="rounded-md bg-blue-50 border border-blue-200 px-3 py-2 text-sm text-blue-900">
+          {message}
+        </p>
+      )}
+
+      <section className="bg-white rounded-xl shadow overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-medium">Name</th>
+              <th className="px-4 py-3 font-medium">Legal entity</th>
+              <th className="px-4 py-3 font-medium">Check-in / out</th>
+              <th className="px-4 py-3 font-medium">Registration link</th>
+              <th className="px-4 py-3 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {properties.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                  No properties yet. Until one is added, guests register without host details.
+                </td>
+              </tr>
+            )}
+            {properties.map(property => (
+              <tr key={property.slug} className="align-top">
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900">{property.name}</div>
+                  <div className="text-gray-500">{property.address}</div>
+                </td>
+                <td className="px-4 py-3">{property.legalEntity}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  {property.checkInFrom} / {property.checkOutBy}
+                  <div className="text-gray-500">{property.timezone}</div>
+                </td>
+                <td className="px-4 py-3 font-mono text-xs break-all">{absoluteUrl(`/register/${property.slug}`)}</td>
+                <td className="px-4 py-3">
+                  <Link href={`/admin/properties/${property.slug}`} className="text-blue-700 hover:underline">Edit</Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+// app/admin/properties/save/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { getProperty, PropertySchema, saveProperty } from "@/lib/properties";
+
+// Create or update a property from the /admin/properties/<slug> form
+export async function POST(request: NextRequest) {
+  const user = await currentUser();
+  if (!user || !can(user.role, "properties:manage")) {
+    return NextResponse.redirect(new URL("/admin?denied=1", request.url), 303);
+  }
+
+  const form = await request.formData().catch(() => null);
+  const field = (name: string) => String(form?.get(name) ?? "").trim();
+  const creating = field("mode") === "create";
+
+  const fail = (message: string) => {
+    const back = new URL(`/admin/properties/${creating ? "new" : encodeURIComponent(field("slug"))}`, request.url);
+    back.searchParams.set("error", message);
+    return NextResponse.redirect(back, 303);
+  };
+
+  let customFields: unknown = [];
+  try {
+    customFields = field("customFields") ? JSON.parse(field("customFields")) : [];
+  } catch {
+    return fail("Custom fields must be valid JSON.");
+  }
+
+  const parsed = PropertySchema.safeParse({
+    slug: field("slug"),
+    name: field("name"),
+    legalEntity: field("legalEntity"),
+    address: field("address"),
+    contactEmail: field("contactEmail"),
+    contactPhone: field("contactPhone"),
+    timezone: field("timezone"),
+    checkInFrom: field("checkInFrom"),
+    checkOutBy: field("checkOutBy"),
+    checkInInstructions: field("checkInInstructions") || undefined,
+    icalUrl: field("icalUrl") || undefined,
+    customFields,
+  });
+  if (!parsed.success) {
+    return fail(parsed.error.errors.map(err =>
+      // Point at the custom field at fault, numbered from 1
+      err.path[0] === "customFields" && typeof err.path[1] === "number"
+        ? `Custom field ${err.path[1] + 1}: ${err.message}`
+        : err.message
+    ).join(" "));
+  }
+
+  const existing = await getProperty(parsed.data.slug);
+  if (creating && existing) return fail("A property with that slug already exists.");
+  if (!creating && !existing) return fail("Property not found.");
+
+  try {
+    const property = await saveProperty(parsed.data);
+    const back = new URL("/admin/properties", request.url);
+    back.searchParams.set("message", `${property.name} saved.`);
+    return NextResponse.redirect(back, 303);
+  } catch (error) {
+    console.error("Failed to save property:", { slug: parsed.data.slug, error });
+    return fail("The property couldn't be saved. Please try again.");
+  }
+}
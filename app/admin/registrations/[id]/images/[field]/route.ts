@@ -0,0 +1,24 @@
+// app/admin/registrations/[id]/images/[field]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { auditContext, recordAudit } from "@/lib/audit";
+import { actorFor, currentUser } from "@/lib/auth";
+import { submissionImageResponse } from "@/lib/image-response";
+import { can } from "@/lib/roles";
+
+// Images for the admin detail view, audited under the staff member's name.
+// Middleware already limits this path to roles with `documents:read`; the
+// check is repeated here because middleware only sees the session cookie,
+// not a disabled account or a changed role.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; field: string }> }
+) {
+  const { id, field } = await params;
+  const user = await currentUser();
+  const audit = auditContext(request.headers, actorFor(user));
+  if (!user || !can(user.role, "documents:read")) {
+    await recordAudit(audit, "read", id, "denied", field);
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return submissionImageResponse(id, field, audit);
+}
@@ -0,0 +1,301 @@
+// app/admin/registrations/[id]/page.tsx
+import Link from "next/link";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import Image from "next/image";
+import dayjs from "dayjs";
+import { auditContext, listAuditEvents, recordAudit } from "@/lib/audit";
+import { actorFor, requirePermission } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { stayStatus } from "@/lib/search";
+import { getSubmission, IMAGE_FIELDS } from "@/lib/submissions";
+import { formatCustomAnswer } from "@/lib/custom-fields";
+import { POLICY_LABELS } from "@/lib/policies";
+import { leadPartyProgress, partyInvites } from "@/lib/party";
+import { GUARDIAN_RELATIONSHIP_LABELS } from "@/lib/registration";
+
+interface RegistrationPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const IMAGE_LABELS: Record<(typeof IMAGE_FIELDS)[number], string> = {
+  selfie: "Selfie",
+  idImage: "ID / Passport",
+  signature: "Signature",
+};
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="font-medium text-gray-700">{label}</dt>
+      <dd className="text-gray-900 break-words">{children}</dd>
+    </div>
+  );
+}
+
+export default async function RegistrationPage({ params }: RegistrationPageProps) {
+  const user = await requirePermission("registrations:read");
+  const showDocuments = can(user.role, "documents:read");
+  const showPdf = can(user.role, "pdf:export");
+
+  const { id } = await params;
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+    notFound();
+  }
+
+  const audit = auditContext(await headers(), actorFor(user));
+
+  const submission = await getSubmission(id);
+  await recordAudit(audit, "read", id, submission ? "success" : "not_found", "admin-detail");
+  if (!submission) {
+    notFound();
+  }
+
+  const { data, metadata } = submission;
+  const history = await listAuditEvents(id);
+  const invites = await partyInvites(submission);
+  const party = leadPartyProgress(submission, invites);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin" className="text-sm text-blue-700 hover:underline">&larr; All registrations</Link>
+          <h1 className="text-2xl font-bold text-gray-900 mt-1">{data.fullName}</h1>
+          <p className="text-sm text-gray-500 font-mono">{id}</p>
+        </div>
+        {showPdf && (
+          <a
+            href={`/api/pdf/${id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+          >
+            Registration PDF
+          </a>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <section className="lg:col-span-2 bg-white rounded-xl shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Guest details</h2>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <Field label="Full name">{data.fullName}</Field>
+            <Field label="ID / Passport">{data.idOrPassport}</Field>
+            <Field label="Nationality">{data.nationality}</Field>
+            <Field label="Date of birth">{data.dateOfBirth ?? "-"}</Field>
+            <Field label="Residence status">{data.residenceStatus}</Field>
+            <Field label="Home address">{data.homeAddress}</Field>
+            <Field label="Phone">{data.phone}</Field>
+            <Field label="Email">{data.email}</Field>
+            <Field label="Guests">{data.guests}</Field>
+            <Field label="Check-in">{dayjs(data.checkIn).format("YYYY-MM-DD HH:mm")}</Field>
+            <Field label="Check-out">{dayjs(data.checkOut).format("YYYY-MM-DD HH:mm")}</Field>
+            <Field label="POPIA consent">{data.popiaConsent ? "Given" : "Not given"}</Field>
+            <Field label="Non-refund acknowledged">{data.nonRefundAck ? "Yes" : "No"}</Field>
+          </dl>
+        </section>
+
+        <section className="bg-white rounded-xl shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Record</h2>
+          <dl className="space-y-3 text-sm">
+            <Field label="Status">{stayStatus(submission)}</Field>
+            <Field label="Property">{submission.propertyId ?? "-"}</Field>
+            {submission.bookingId && (
+              <Field label="Booking">
+                <Link href="/admin/bookings" className="text-blue-700 hover:underline">{submission.bookingId}</Link>
+              </Field>
+            )}
+            {submission.leadId ? (
+              <Field label="Travelling with">
+                <Link href={`/admin/registrations/${submission.leadId}`} className="text-blue-700 hover:underline">
+                  The lead guest&apos;s registration
+                </Link>
+              </Field>
+            ) : party.size > 1 && (
+              <Field label="Party">{party.registered} of {party.size} registered</Field>
+            )}
+            <Field label="Submitted">{dayjs(submission.createdAt).format("YYYY-MM-DD HH:mm:ss")}</Field>
+            <Field label="Client IP">{metadata.ip || "-"}</Field>
+            <Field label="User agent">{metadata.userAgent || "-"}</Field>
+            <Field label="Schema version">{submission.schemaVersion}</Field>
+            <Field label="Arrival">
+              {submission.arrival
+                ? `${dayjs(submission.arrival.at).format("YYYY-MM-DD HH:mm")} (${submission.arrival.by})`
+                : "Not confirmed"}
+            </Field>
+            {submission.policies?.map(policy => (
+              <Field key={policy.kind} label={`Accepted: ${POLICY_LABELS[policy.kind]}`}>
+                Version {policy.version} on {dayjs(policy.acceptedAt).format("YYYY-MM-DD HH:mm")}
+                <span className="block font-mono text-xs text-gray-500">{policy.sha256}</span>
+              </Field>
+            ))}
+            {submission.legalHold && (
+              <Field label="Legal hold">
+                {submission.legalHold.reason} ({submission.legalHold.placedBy}, {dayjs(submission.legalHold.placedAt).format("YYYY-MM-DD")})
+              </Field>
+            )}
+            {submission.retention?.minimized.map(entry => (
+              <Field key={`${entry.field}-${entry.at}`} label={`Removed: ${entry.field}`}>
+                {entry.rule} on {dayjs(entry.at).format("YYYY-MM-DD")}
+              </Field>
+            ))}
+          </dl>
+        </section>
+      </div>
+
+      {(data.companions.length > 0 || invites.length > 0) && (
+        <section className="bg-white rounded-xl shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Other guests</h2>
+          {data.companions.length > 0 && (
+            <table className="min-w-full text-sm">
+              <thead className="text-left text-gray-600">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">#</th>
+                  <th className="py-2 pr-4 font-medium">Full name</th>
+                  <th className="py-2 pr-4 font-medium">ID / Passport</th>
+                  <th className="py-2 pr-4 font-medium">Nationality</th>
+                  <th className="py-2 pr-4 font-medium">Date of birth</th>
+                  <th className="py-2 pr-4 font-medium">Guardian consent</th>
+                  {showDocuments && <th className="py-2 pr-4 font-medium">ID image</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {data.companions.map((companion, index) => (
+                  <tr key={index}>
+                    <td className="py-2 pr-4 text-gray-700">{index + 2}</td>
+                    <td className="py-2 pr-4 text-gray-900">{companion.fullName}</td>
+                    <td className="py-2 pr-4 text-gray-700">{companion.idOrPassport}</td>
+                    <td className="py-2 pr-4 text-gray-700">{companion.nationality}</td>
+                    <td className="py-2 pr-4 text-gray-700">{companion.dateOfBirth}</td>
+                    <td className="py-2 pr-4 text-gray-700">
+                      {companion.guardianConsent ? (
+                        <>
+                          Minor. Given by {companion.guardianConsent.by}
+                          {companion.guardianRelationship && ` (${GUARDIAN_RELATIONSHIP_LABELS[companion.guardianRelationship].toLowerCase()})`}
+                          {" "}on {dayjs(companion.guardianConsent.at).format("YYYY-MM-DD HH:mm")}
+                          <span className="block font-mono text-xs text-gray-500">
+                            Signature {companion.guardianConsent.signatureSha256.slice(0, 16)}
+                          </span>
+                        </>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    {showDocuments && (
+                      <td className="py-2 pr-4">
+                        {companion.idImage ? (
+                          <a
+                            href={`/admin/registrations/${id}/images/companions.${index}.idImage`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-blue-700 hover:underline"
+                          >
+                            View
+                          </a>
+                        ) : (
+                          <span className="text-gray-500">Not on file</span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {invites.length > 0 && (
+            <div className="mt-4 text-sm">
+              <h3 className="font-medium text-gray-700 mb-2">Registering themselves</h3>
+              <ul className="space-y-1">
+                {invites.map(invite => (
+                  <li key={invite.id}>
+                    {invite.fullName}:{" "}
+                    {invite.registrationId ? (
+                      <Link href={`/admin/registrations/${invite.registrationId}`} className="text-blue-700 hover:underline">
+                        Registered
+                      </Link>
+                    ) : (
+                      <span className="text-amber-700">Not registered yet</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+
+      {data.custom && data.custom.length > 0 && (
+        <section className="bg-white rounded-xl shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Additional information</h2>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            {data.custom.map(answer => (
+              <Field key={answer.key} label={answer.label}>
+                {typeof answer.value === "object" && showDocuments ? (
+                  <a href={`/admin/registrations/${id}/images/custom.${answer.key}`} target="_blank" rel="noreferrer" className="text-blue-700 hover:underline">
+                    {formatCustomAnswer(answer)}
+                  </a>
+                ) : (
+                  formatCustomAnswer(answer)
+                )}
+              </Field>
+            ))}
+          </dl>
+        </section>
+      )}
+
+      {showDocuments && (
+        <section className="bg-white rounded-xl shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Documents</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {IMAGE_FIELDS.map(field => (
+              <figure key={field} className="text-center">
+                {data[field] ? (
+                  <Image
+                    unoptimized
+                    width={320}
+                    height={320}
+                    src={`/admin/registrations/${id}/images/${field}`}
+                    alt={IMAGE_LABELS[field]}
+                    className="mx-auto h-auto w-auto max-h-64 rounded-lg border border-gray-200 bg-white object-contain"
+                  />
+                ) : (
+                  <div className="h-32 flex items-center justify-center rounded-lg border border-dashed border-gray-300 text-xs text-gray-500">
+                    Not on file
+                  </div>
+                )}
+                <figcaption className="mt-2 text-xs text-gray-500">{IMAGE_LABELS[field]}</figcaption>
+              </figure>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="bg-white rounded-xl shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Access history</h2>
+        <table className="min-w-full text-sm">
+          <thead className="text-left text-gray-600">
+            <tr>
+              <th className="py-2 pr-4 font-medium">When</th>
+              <th className="py-2 pr-4 font-medium">Actor</th>
+              <th className="py-2 pr-4 font-medium">Action</th>
+              <th className="py-2 pr-4 font-medium">Outcome</th>
+              <th className="py-2 pr-4 font-medium">IP</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {history.slice().reverse().map(event => (
+              <tr key={event.id}>
+                <td className="py-2 pr-4 text-gray-700">{dayjs(event.at).format("YYYY-MM-DD HH:mm:ss")}</td>
+                <td className="py-2 pr-4 text-gray-700">{event.actor}</td>
+                <td className="py-2 pr-4 text-gray-700">{event.action}{event.detail ? ` (${event.detail})` : ""}</td>
+                <td className="py-2 pr-4 text-gray-700">{event.outcome}</td>
+                <td className="py-2 pr-4 text-gray-700">{event.ip || "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+// app/admin/requests/page.tsx
+import Link from "next/link";
+import dayjs from "dayjs";
+import { requirePermission } from "@/lib/auth";
+import { listGuestRequests, type GuestRequest } from "@/lib/guest-requests";
+
+interface RequestsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+function Changes({ request }: { request: GuestRequest }) {
+  if (request.type === "erasure") return <span>Erase registration</span>;
+  return (
+    <ul>
+      {Object.entries(request.corrections ?? {}).map(([field, value]) => (
+        <li key={field}>
+          <span className="font-medium">{field}</span>: {value}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default async function RequestsPage({ searchParams }: RequestsPageProps) {
+  await requirePermission("requests:review");
+
+  const params = await searchParams;
+  const message = typeof params.message === "string" ? params.message : undefined;
+
+  const requests = await listGuestRequests();
+  const pending = requests.filter(r => r.status === "pending");
+  const resolved = requests.filter(r => r.status !== "pending").reverse().slice(0, 50);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Guest requests</h1>
+        <p className="text-sm text-gray-500">Corrections and erasure requests lodged through the guest portal.</p>
+      </div>
+
+      {message && (
+        <p role="status" className="rounded-md bg-blue-50 border border-blue-200 px-3 py-2 text-sm text-blue-900">
+          {message}
+        </p>
+      )}
+
+      <section className="bg-white rounded-xl shadow overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-medium">Received</th>
+              <th className="px-4 py-3 font-medium">Registration</th>
+              <th className="px-4 py-3 font-medium">Change</th>
+              <th className="px-4 py-3 font-medium">Note</th>
+              <th className="px-4 py-3 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {pending.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-gray-500">No pending requests.</td>
+              </tr>
+            )}
+            {pending.map(request => (
+              <tr key={request.id} className="align-top">
+                <td className="px-4 py-3 whitespace-nowrap">{dayjs(request.createdAt).format("YYYY-MM-DD HH:mm")}</td>
+                <td className="px-4 py-3">
+                  <Link href={`/admin/registrations/${request.recordId}`} className="text-blue-700 hover:underline font-mono text-xs">
+                    {request.recordId.slice(0, 8)}
+                  </Link>
+                  <div className="text-gray-500">{request.email}</div>
+                </td>
+                <td className="px-4 py-3"><Changes request={request} /></td>
+                <td className="px-4 py-3 text-gray-600 max-w-xs break-words">{request.note}</td>
+                <td className="px-4 py-3">
+                  <form method="post" action="/admin/requests/resolve" className="flex flex-col gap-2">
+                    <input type="hidden" name="id" value={request.id} />
+                    <input name="note" placeholder="Reason (if rejecting)" className="border border-gray-300 rounded-md px-2 py-1" />
+                    <div className="flex gap-2">
+                      <button name="decision" value="approve" className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                        Approve
+                      </button>
+                      <button name="decision" value="reject" className="px-3 py-1 bg-gray-100 text-gray-900 rounded-md hover:bg-gray-200">
+                        Reject
+                      </button>
+                    </div>
+                  </form>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {resolved.length > 0 && (
+        <section className="bg-white rounded-xl shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Recently resolved</h2>
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-gray-100">
+              {resolved.map(request => (
+                <tr key={request.id} className="align-top">
+                  <td className="py-2 pr-4 whitespace-nowrap">{dayjs(request.resolution?.at).format("YYYY-MM-DD HH:mm")}</td>
+                  <td className="py-2 pr-4 capitalize">{request.type}</td>
+                  <td className="py-2 pr-4">{request.status}</td>
+                  <td className="py-2 pr-4 text-gray-600">{request.resolution?.by}</td>
+                  <td className="py-2 text-gray-600">{request.resolution?.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
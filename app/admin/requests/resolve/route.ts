@@ -0,0 +1,33 @@
+// app/admin/requests/resolve/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { actorFor, currentUser } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { resolveGuestRequest } from "@/lib/guest-requests";
+
+// Approve or reject a guest request from the /admin/requests form
+export async function POST(request: NextRequest) {
+  const user = await currentUser();
+  if (!user || !can(user.role, "requests:review")) {
+    return NextResponse.redirect(new URL("/admin?denied=1", request.url), 303);
+  }
+
+  const form = await request.formData().catch(() => null);
+  const id = String(form?.get("id") ?? "");
+  const decision = form?.get("decision");
+  const note = String(form?.get("note") ?? "");
+
+  const back = new URL("/admin/requests", request.url);
+  if (decision !== "approve" && decision !== "reject") {
+    back.searchParams.set("message", "Choose approve or reject.");
+    return NextResponse.redirect(back, 303);
+  }
+
+  try {
+    const result = await resolveGuestRequest(id, decision, actorFor(user), note);
+    back.searchParams.set("message", result ? result.message : "Request not found.");
+  } catch (error) {
+    console.error("Failed to resolve guest request:", { id, error });
+    back.searchParams.set("message", "The request couldn't be processed. Please try again.");
+  }
+  return NextResponse.redirect(back, 303);
+}
@@ -0,0 +1,131 @@
+// app/admin/today/page.tsx
+import Link from "next/link";
+import { headers } from "next/headers";
+import dayjs from "dayjs";
+import { auditContext, recordAuditListing } from "@/lib/audit";
+import { actorFor, requirePermission } from "@/lib/auth";
+import { can } from "@/lib/roles";
+import { checkInPath, dayBoard, localToday } from "@/lib/arrivals";
+import type { SubmissionRecord } from "@/lib/records";
+
+interface TodayPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+function Board({
+  title,
+  records,
+  time,
+  showGuests,
+  canConfirm,
+}: {
+  title: string;
+  records: SubmissionRecord[];
+  time: (record: SubmissionRecord) => string;
+  showGuests: boolean;
+  canConfirm: boolean;
+}) {
+  return (
+    <section className="bg-white rounded-xl shadow overflow-x-auto">
+      <h2 className="px-4 pt-4 text-lg font-semibold text-gray-900">
+        {title} <span className="text-sm font-normal text-gray-500">({records.length})</span>
+      </h2>
+      <table className="min-w-full text-sm mt-2">
+        <thead className="bg-gray-50 text-left text-gray-600">
+          <tr>
+            <th className="px-4 py-3 font-medium">Time</th>
+            {showGuests && <th className="px-4 py-3 font-medium">Guest</th>}
+            <th className="px-4 py-3 font-medium">Party</th>
+            <th className="px-4 py-3 font-medium">Property</th>
+            <th className="px-4 py-3 font-medium">Arrival</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {records.length === 0 && (
+            <tr>
+              <td colSpan={showGuests ? 5 : 4} className="px-4 py-6 text-center text-gray-500">None.</td>
+            </tr>
+          )}
+          {records.map(record => (
+            <tr key={record.id}>
+              <td className="px-4 py-3 whitespace-nowrap">{time(record)}</td>
+              {showGuests && (
+                <td className="px-4 py-3">
+                  <Link href={`/admin/registrations/${record.id}`} className="text-blue-700 hover:underline">
+                    {record.data.fullName}
+                  </Link>
+                </td>
+              )}
+              <td className="px-4 py-3">{record.data.guests}</td>
+              <td className="px-4 py-3">{record.propertyId ?? "-"}</td>
+              <td className="px-4 py-3">
+                {record.arrival ? (
+                  <span className="text-green-700">Arrived {dayjs(record.arrival.at).format("HH:mm")}</span>
+                ) : canConfirm ? (
+                  <Link href={checkInPath(record.id)} className="text-blue-700 hover:underline">Check in</Link>
+                ) : (
+                  <span className="text-gray-500">Not confirmed</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+export default async function TodayPage({ searchParams }: TodayPageProps) {
+  const user = await requirePermission("arrivals:read");
+  const showGuests = can(user.role, "registrations:read");
+  const canConfirm = can(user.role, "checkin:confirm");
+
+  const params = await searchParams;
+  const today = await localToday();
+  const requested = typeof params.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(params.date) ? dayjs(params.date) : null;
+  const day = requested?.isValid() ? requested : dayjs(today);
+  const board = await dayBoard(day.format("YYYY-MM-DD"));
+
+  if (showGuests) {
+    const audit = auditContext(await headers(), actorFor(user));
+    const ids = [...board.arrivals, ...board.departures].map(record => record.id);
+    await recordAuditListing(audit, "read", ids, "success", "today-board");
+  }
+
+  const dayHref = (offset: number) => `/admin/today?date=${day.add(offset, "day").format("YYYY-MM-DD")}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{day.format("dddd D MMMM YYYY")}</h1>
+          {canConfirm && (
+            <p className="text-sm text-gray-500">
+              Scan the guest&apos;s QR code with your phone camera to open their check-in page.
+            </p>
+          )}
+        </div>
+        <nav className="flex gap-4 text-sm">
+          <Link href={dayHref(-1)} className="text-blue-700 hover:underline">&larr; Previous day</Link>
+          <Link href="/admin/today" className="text-blue-700 hover:underline">Today</Link>
+          <Link href={dayHref(1)} className="text-blue-700 hover:underline">Next day &rarr;</Link>
+        </nav>
+      </div>
+
+      <Board
+        title="Arrivals"
+        records={board.arrivals}
+        time={record => dayjs(record.data.checkIn).format("HH:mm")}
+        showGuests={showGuests}
+        canConfirm={canConfirm}
+      />
+      <Board
+        title="Departures"
+        records={board.departures}
+        time={record => dayjs(record.data.checkOut).format("HH:mm")}
+        showGuests={showGuests}
+        canConfirm={false}
+      />
+    </div>
+  );
+}
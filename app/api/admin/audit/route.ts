@@ -0,0 +1,42 @@
+// app/api/admin/audit/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthorizedAdmin } from "@/lib/admin-auth";
+import { auditContext, listAllAuditEvents, listAuditEvents, recordAudit } from "@/lib/audit";
+
+const QuerySchema = z.object({
+  recordId: z.string().uuid("Invalid registration ID").optional(),
+  from: z.coerce.number().int().min(0).optional(),
+  to: z.coerce.number().int().min(0).optional(),
+});
+
+// Who processed a guest's data: `?recordId=<id>` for one registration (the
+// answer to a POPIA access request), otherwise everything in the last 30 days.
+// `from`/`to` are ms since epoch.
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = QuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Validation failed", details: parsed.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  const { recordId, to = Date.now() } = parsed.data;
+
+  try {
+    if (recordId) {
+      const events = await listAuditEvents(recordId, parsed.data.from ?? 0, to);
+      // Reading the trail is itself an access to the guest's data
+      await recordAudit(auditContext(request.headers, "admin-api"), "read", recordId, "success", "audit-trail");
+      return NextResponse.json({ recordId, events });
+    }
+
+    const from = parsed.data.from ?? to - 30 * 24 * 60 * 60 * 1000;
+    return NextResponse.json({ events: await listAllAuditEvents(from, to) });
+  } catch (error) {
+    console.error("Audit query error:", error);
+    return NextResponse.json({ error: "Failed to load audit events" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+// app/api/admin/calendars/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedAdmin } from "@/lib/admin-auth";
+import { syncCalendars } from "@/lib/calendar-import";
+
+// Poll every property's calendar feed and import its reservations as
+// bookings. Call from a scheduler (e.g. Vercel Cron), hourly or so.
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await syncCalendars("api");
+    return NextResponse.json({ results }, { status: results.some(result => result.error) ? 207 : 200 });
+  } catch (error) {
+    console.error("Calendar sync failed:", error);
+    return NextResponse.json({ error: "Calendar sync failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+// app/api/admin/indexes/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedAdmin } from "@/lib/admin-auth";
+import { rebuildIndexes } from "@/lib/submissions";
+
+// Rebuild the secondary indexes from the stored guest records, e.g. after
+// restoring a backup or when an index write failed during submission.
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const indexed = await rebuildIndexes();
+    return NextResponse.json({ indexed });
+  } catch (error) {
+    console.error("Index rebuild failed:", error);
+    return NextResponse.json({ error: "Index rebuild failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/admin/retention/holds/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAuthorizedAdmin } from "@/lib/admin-auth";
+import { placeLegalHold, releaseLegalHold } from "@/lib/retention";
+import { auditContext, recordAudit } from "@/lib/audit";
+
+const HoldSchema = z.object({
+  id: z.string().uuid("Invalid registration ID"),
+  reason: z.string().min(3, "A reason is required").max(500),
+  placedBy: z.string().min(1).max(100),
+});
+
+const ReleaseSchema = z.object({
+  id: z.string().uuid("Invalid registration ID"),
+});
+
+// Place a legal hold: the retention runner will skip this record entirely
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = HoldSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Validation failed", details: parsed.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  const hold = await placeLegalHold(parsed.data.id, parsed.data.reason, parsed.data.placedBy);
+  if (!hold) {
+    return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+  }
+  await recordAudit(auditContext(request.headers, "admin-api"), "update", parsed.data.id, "success", `legal hold placed by ${parsed.data.placedBy}`);
+  return NextResponse.json({ id: parsed.data.id, legalHold: hold });
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = ReleaseSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Validation failed", details: parsed.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  if (!(await releaseLegalHold(parsed.data.id))) {
+    return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+  }
+  await recordAudit(auditContext(request.headers, "admin-api"), "update", parsed.data.id, "success", "legal hold released");
+  return NextResponse.json({ id: parsed.data.id, legalHold: null });
+}
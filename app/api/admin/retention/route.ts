@@ -0,0 +1,40 @@
+// app/api/admin/retention/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedAdmin } from "@/lib/admin-auth";
+import { listPurgeReports, loadRetentionPolicy, runRetention } from "@/lib/retention";
+
+// Active policy plus purge reports from the last 90 days
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const since = Date.now() - 90 * 24 * 60 * 60 * 1000;
+    return NextResponse.json({
+      policy: loadRetentionPolicy(),
+      reports: await listPurgeReports(since),
+    });
+  } catch (error) {
+    console.error("Retention status error:", error);
+    return NextResponse.json({ error: "Failed to load retention status" }, { status: 500 });
+  }
+}
+
+// Run the purge. Call from a scheduler (e.g. Vercel Cron) or by hand;
+// `?dryRun=1` reports what would be removed without changing anything.
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const dryRun = ["1", "true"].includes(request.nextUrl.searchParams.get("dryRun") || "");
+
+  try {
+    const report = await runRetention({ actor: "api", dryRun });
+    return NextResponse.json(report, { status: report.errors.length > 0 ? 207 : 200 });
+  } catch (error) {
+    console.error("Retention run failed:", error);
+    return NextResponse.json({ error: "Retention run failed" }, { status: 500 });
+  }
+}
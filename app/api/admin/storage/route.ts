@@ -0,0 +1,43 @@
+// app/api/admin/storage/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedAdmin } from "@/lib/admin-auth";
+import { getJournalStatus, replayJournal } from "@/lib/journal";
+import { getStorageDriver } from "@/lib/storage";
+import { persistenceMode } from "@/lib/kv";
+
+// Storage health for the host: which driver is active and whether any
+// registrations are waiting in the local journal.
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const journal = await getJournalStatus();
+  return NextResponse.json(
+    {
+      driver: getStorageDriver().name,
+      mode: persistenceMode(),
+      degraded: journal.pending > 0,
+      journal,
+    },
+    { status: journal.pending > 0 ? 503 : 200 }
+  );
+}
+
+// Force a replay of the journal, e.g. after the KV outage is resolved.
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedAdmin(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const applied = await replayJournal(getStorageDriver());
+    return NextResponse.json({ applied, journal: await getJournalStatus() });
+  } catch (error) {
+    console.error("Manual journal replay failed:", error);
+    return NextResponse.json(
+      { error: "Replay failed", journal: await getJournalStatus() },
+      { status: 503 }
+    );
+  }
+}
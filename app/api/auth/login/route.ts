@@ -0,0 +1,43 @@
+// app/api/auth/login/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, normalizeUsername } from "@/lib/users";
+import { createSessionToken, safeNextPath, SESSION_COOKIE, sessionCookieOptions, sessionSecretConfigured } from "@/lib/session";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { resolveClient } from "@/lib/client-ip";
+
+// The login form posts here; every outcome is a redirect (303 so the browser
+// follows with GET)
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  // Only same-site paths, so the login form can't be used as an open redirect
+  const next = safeNextPath(form?.get("next"));
+
+  const back = (error: string) => {
+    const url = new URL("/admin/login", request.url);
+    url.searchParams.set("error", error);
+    url.searchParams.set("next", next);
+    return NextResponse.redirect(url, 303);
+  };
+
+  if (!sessionSecretConfigured()) return back("unavailable");
+
+  const username = normalizeUsername(String(form?.get("username") ?? ""));
+  const password = String(form?.get("password") ?? "");
+  const code = String(form?.get("code") ?? "").trim();
+  if (!username || !password) return back("invalid");
+
+  const { bucket } = resolveClient(request.headers);
+  const rateLimit = await checkRateLimit("login", { ip: bucket, username });
+  if (!rateLimit.allowed) return back("rate_limited");
+
+  const result = await authenticate(username, password, code || undefined);
+  if (result.status === "totp_required") return back("totp_required");
+  if (result.status !== "ok") {
+    console.warn("Failed staff login:", { username });
+    return back("invalid");
+  }
+
+  const response = NextResponse.redirect(new URL(next, request.url), 303);
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(result.user.username, result.user.role), sessionCookieOptions());
+  return response;
+}
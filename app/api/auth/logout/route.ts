@@ -0,0 +1,9 @@
+// app/api/auth/logout/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, sessionCookieOptions } from "@/lib/session";
+
+export async function POST(request: NextRequest) {
+  const response = NextResponse.redirect(new URL("/admin/login", request.url), 303);
+  response.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(0));
+  return response;
+}
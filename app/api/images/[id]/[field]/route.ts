@@ -0,0 +1,27 @@
+// app/api/images/[id]/[field]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { auditContext, recordAudit } from "@/lib/audit";
+import { recordAccess } from "@/lib/auth";
+import { submissionImageResponse } from "@/lib/image-response";
+
+// Serve one image of a registration on demand, so pages can show it without
+// loading the bytes through the KV record. Guests reach their selfie and
+// signature with their signed link (`?token=`); ID document images (the
+// whole party's) and files uploaded to custom fields are for staff with
+// `documents:read` only.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; field: string }> }
+) {
+  const { id, field } = await params;
+
+  const scopes = field === "selfie" || field === "signature" ? (["guest"] as const) : [];
+  const access = await recordAccess(id, request.nextUrl.searchParams.get("token"), [...scopes], "documents:read");
+  const audit = auditContext(request.headers, access?.actor ?? "anonymous");
+  if (!access) {
+    await recordAudit(audit, "read", id, "denied", field);
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return submissionImageResponse(id, field, audit);
+}
@@ -0,0 +1,327 @@
+// app/api/pdf/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PDFDocument, StandardFonts, rgb, PageSizes } from "pdf-lib";
+import { getSubmission } from "@/lib/submissions";
+import type { BlobRef } from "@/lib/blob";
+import dayjs from "dayjs";
+import { auditContext, recordAudit } from "@/lib/audit";
+import { recordAccess } from "@/lib/auth";
+import { embedImage, LEGAL_NOTICE, pdfText, setDocumentInfo, wrapText } from "@/lib/pdf";
+import { getPolicyVersion, POLICY_LABELS } from "@/lib/policies";
+import { getProperty } from "@/lib/properties";
+import { formatCustomAnswer } from "@/lib/custom-fields";
+import { GUARDIAN_RELATIONSHIP_LABELS } from "@/lib/registration";
+
+// The registration PDF. Needs a signed link (`?token=`, guest scope)
+// or a staff session with `pdf:export`.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  // Validate ID format (basic UUID validation)
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+    return NextResponse.json({ error: "Invalid ID format" }, { status: 400 });
+  }
+
+  const access = await recordAccess(id, request.nextUrl.searchParams.get("token"), ["guest"], "pdf:export");
+  const audit = auditContext(request.headers, access?.actor ?? "anonymous");
+  if (!access) {
+    await recordAudit(audit, "export", id, "denied", "pdf");
+    return NextResponse.json(
+      { error: "Forbidden", message: "This link is invalid or has expired." },
+      { status: 403 }
+    );
+  }
+
+  try {
+
+    // Fetch submission
+    const submission = await getSubmission(id);
+    if (!submission) {
+      await recordAudit(audit, "export", id, "not_found");
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+    }
+
+    const { data: d, createdAt } = submission;
+    const property = submission.propertyId ? await getProperty(submission.propertyId) : null;
+
+    // Create PDF
+    const pdf = await PDFDocument.create();
+    setDocumentInfo(pdf, `Guest Registration - ${d.fullName}`, "Guest Registration & Agreement");
+
+    let currentPage = pdf.addPage(PageSizes.A4);
+    const { width, height } = currentPage.getSize();
+    const margin = 50;
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+    let y = height - margin;
+
+    const drawText = (
+      text: string, 
+      x: number, 
+      yPos: number, 
+      size = 10, 
+      useFont = font,
+      maxWidth?: number
+    ) => {
+      if (maxWidth) {
+        // Simple text wrapping
+        const words = text.split(' ');
+        let line = '';
+        let currentY = yPos;
+        
+        for (const word of words) {
+          const testLine = line + (line ? ' ' : '') + word;
+          const textWidth = useFont.widthOfTextAtSize(testLine, size);
+          
+          if (textWidth > maxWidth && line) {
+            currentPage.drawText(line, { x, y: currentY, size, font: useFont, color: rgb(0, 0, 0) });
+            line = word;
+            currentY -= size + 2;
+          } else {
+            line = testLine;
+          }
+        }
+        
+        if (line) {
+          currentPage.drawText(line, { x, y: currentY, size, font: useFont, color: rgb(0, 0, 0) });
+        }
+        
+        return currentY;
+      } else {
+        currentPage.drawText(text, { x, y: yPos, size, font: useFont, color: rgb(0, 0, 0) });
+        return yPos;
+      }
+    };
+
+    const checkPageSpace = (requiredSpace: number) => {
+      if (y - requiredSpace < margin) {
+        currentPage = pdf.addPage(PageSizes.A4);
+        y = height - margin;
+      }
+    };
+
+    // Header
+    drawText("Guest Registration & Agreement", margin, y, 16, boldFont);
+    y -= 20;
+    drawText("Republic of South Africa", margin, y, 12, boldFont);
+    y -= 25;
+
+    // Submission details
+    drawText(`Submission ID: ${id}`, margin, y, 9);
+    y -= 12;
+    drawText(`Generated: ${dayjs(createdAt).format("YYYY-MM-DD HH:mm:ss")}`, margin, y, 9);
+    y -= 12;
+    if (property) {
+      drawText(pdfText(`Host: ${property.legalEntity} (${property.name})`), margin, y, 9);
+      y -= 12;
+      y = drawText(pdfText(`Address: ${property.address}`), margin, y, 9, font, width - 2 * margin);
+      y -= 12;
+      drawText(pdfText(`Contact: ${property.contactEmail} / ${property.contactPhone}`), margin, y, 9);
+      y -= 12;
+    }
+    y -= 8;
+
+    // Legal notice
+    y = drawText(LEGAL_NOTICE, margin, y, 9, font, width - 2 * margin);
+    y -= 25;
+
+    // Guest information section
+    drawText("GUEST INFORMATION", margin, y, 12, boldFont);
+    y -= 20;
+
+    // Values are mostly the guest's own text, which the standard font may not encode
+    const addField = (label: string, value: string) => {
+      checkPageSpace(30);
+      drawText(pdfText(`${label}:`), margin, y, 10, boldFont);
+      drawText(pdfText(value), margin + 120, y, 10, font, width - margin - 120 - margin);
+      y -= 16;
+    };
+
+    addField("Full Name", d.fullName);
+    addField("ID/Passport Number", d.idOrPassport);
+    addField("Nationality", d.nationality);
+    if (d.dateOfBirth) addField("Date of Birth", d.dateOfBirth);
+    addField("Residence Status", d.residenceStatus);
+    addField("Home Address", d.homeAddress);
+    addField("Phone Number", d.phone);
+    addField("Email Address", d.email);
+    
+    y -= 10;
+    drawText("ACCOMMODATION DETAILS", margin, y, 12, boldFont);
+    y -= 20;
+    
+    addField("Check-in", dayjs(d.checkIn).format("YYYY-MM-DD HH:mm"));
+    addField("Check-out", dayjs(d.checkOut).format("YYYY-MM-DD HH:mm"));
+    addField("Number of Guests", d.guests.toString());
+
+    y -= 15;
+
+    // Every other lodger in the party, as the register needs them
+    if (d.companions.length > 0) {
+      checkPageSpace(40);
+      drawText("OTHER GUESTS", margin, y, 12, boldFont);
+      y -= 20;
+
+      d.companions.forEach((companion, index) => {
+        checkPageSpace(80);
+        drawText(`Guest ${index + 2}`, margin, y, 10, boldFont);
+        y -= 16;
+        addField("Full Name", companion.fullName);
+        addField("ID/Passport Number", companion.idOrPassport);
+        addField("Nationality", companion.nationality);
+        addField("Date of Birth", companion.dateOfBirth);
+        // Children are registered, and consented for, by the lead guest
+        if (companion.guardianConsent) {
+          const relationship = companion.guardianRelationship ? GUARDIAN_RELATIONSHIP_LABELS[companion.guardianRelationship] : "-";
+          addField("Minor", `Under 18, guardian ${d.fullName} (${relationship})`);
+          addField(
+            "Guardian Consent",
+            `Given by ${companion.guardianConsent.by} on ${dayjs(companion.guardianConsent.at).format("YYYY-MM-DD HH:mm")}`
+          );
+          addField("Consent Signature", `SHA-256 ${companion.guardianConsent.signatureSha256.slice(0, 32)}...`);
+        }
+        y -= 6;
+      });
+      y -= 9;
+    }
+
+    // Answers to the property's own questions, labelled as they were asked
+    if (d.custom && d.custom.length > 0) {
+      checkPageSpace(40);
+      drawText("ADDITIONAL INFORMATION", margin, y, 12, boldFont);
+      y -= 20;
+
+      for (const answer of d.custom) addField(answer.label, formatCustomAnswer(answer));
+      y -= 15;
+    }
+
+    // Consents section
+    drawText("CONSENTS & ACKNOWLEDGMENTS", margin, y, 12, boldFont);
+    y -= 20;
+    
+    if (submission.policies?.length) {
+      // Reproduce each policy exactly as the guest accepted it
+      for (const acceptance of submission.policies) {
+        const policy = await getPolicyVersion(acceptance.kind, acceptance.version);
+        checkPageSpace(50);
+        drawText(pdfText(`[x] ${policy?.title ?? POLICY_LABELS[acceptance.kind]} (version ${acceptance.version})`), margin, y, 10, boldFont);
+        y -= 13;
+        drawText(`Accepted ${dayjs(acceptance.acceptedAt).format("YYYY-MM-DD HH:mm:ss")} - SHA-256 ${acceptance.sha256}`, margin, y, 8);
+        y -= 13;
+
+        const text = policy?.sha256 === acceptance.sha256
+          ? policy.body
+          : "The text of this version is not available or does not match the recorded hash.";
+        for (const paragraph of text.split("\n")) {
+          for (const line of wrapText(paragraph, font, 9, width - 2 * margin)) {
+            checkPageSpace(12);
+            drawText(line, margin, y, 9);
+            y -= 11;
+          }
+        }
+        y -= 10;
+      }
+      y -= 5;
+    } else {
+      drawText("[x] POPIA Consent: Granted", margin, y, 10);
+      y -= 14;
+      drawText("[x] Non-Refund Policy: Acknowledged", margin, y, 10);
+      y -= 25;
+    }
+
+    // Images section
+    const placeImage = async (image: BlobRef | undefined, caption: string) => {
+      if (!image) return;
+      const label = pdfText(caption);
+      
+      try {
+        const img = await embedImage(pdf, image);
+        if (!img) {
+          console.warn(`Image missing or in an unsupported format: ${label}`);
+          return;
+        }
+
+        const maxWidth = 200;
+        const maxHeight = 150;
+        const imgAspect = img.width / img.height;
+        
+        let imgWidth = maxWidth;
+        let imgHeight = maxWidth / imgAspect;
+        
+        if (imgHeight > maxHeight) {
+          imgHeight = maxHeight;
+          imgWidth = maxHeight * imgAspect;
+        }
+
+        checkPageSpace(imgHeight + 40);
+        
+        drawText(`${label}:`, margin, y, 10, boldFont);
+        y -= 15;
+        
+        currentPage.drawImage(img, {
+          x: margin,
+          y: y - imgHeight,
+          width: imgWidth,
+          height: imgHeight,
+        });
+        
+        y -= imgHeight + 20;
+        
+      } catch (error) {
+        console.error(`Error processing ${label} image:`, error);
+        drawText(`${label}: [Image processing failed]`, margin, y, 10);
+        y -= 20;
+      }
+    };
+
+    drawText("UPLOADED DOCUMENTS", margin, y, 12, boldFont);
+    y -= 25;
+
+    await placeImage(d.selfie, "Selfie Photo");
+    await placeImage(d.idImage, "ID/Passport Document");
+    await placeImage(d.signature, "Digital Signature");
+    for (const [index, companion] of d.companions.entries()) {
+      await placeImage(companion.idImage, `ID/Passport Document - Guest ${index + 2} (${companion.fullName})`);
+    }
+    for (const answer of d.custom ?? []) {
+      if (typeof answer.value === "object" && answer.value.contentType.startsWith("image/")) {
+        await placeImage(answer.value, answer.label);
+      }
+    }
+
+    // Footer
+    checkPageSpace(50);
+    y -= 20;
+    drawText("--- End of Registration ---", margin, y, 9, font);
+    y -= 15;
+    drawText(`Document generated on ${dayjs().format("YYYY-MM-DD HH:mm:ss")}`, margin, y, 8, font);
+
+    // Generate PDF bytes
+    const pdfBytes = await pdf.save();
+    await recordAudit(audit, "export", id, "success", "pdf");
+
+    // Return PDF response
+    return new Response(new Blob([new Uint8Array(pdfBytes)], { type: "application/pdf" }), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="guest-registration-${id}.pdf"`,
+        "Cache-Control": "private, no-cache, no-store, must-revalidate",
+        "Pragma": "no-cache",
+        "Expires": "0",
+      },
+    });
+
+  } catch (error) {
+    console.error("PDF generation error:", error);
+    await recordAudit(audit, "export", id, "error", "pdf");
+    return NextResponse.json(
+      { error: "Failed to generate PDF" },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+// app/api/portal/code/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { requestPortalCode } from "@/lib/portal";
+import { normalizeEmail, normalizeIdNumber } from "@/lib/kv";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { resolveClient } from "@/lib/client-ip";
+
+// Step 1 of the guest portal: email a one-time code if the email and ID
+// number match a registration. The response is the same whether they do or
+// not.
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  const email = normalizeEmail(String(form?.get("email") ?? ""));
+  const idNumber = String(form?.get("idNumber") ?? "");
+
+  const redirect = (params: Record<string, string>) => {
+    const url = new URL("/portal", request.url);
+    for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+    return NextResponse.redirect(url, 303);
+  };
+
+  if (!email.includes("@") || normalizeIdNumber(idNumber).length < 4) {
+    return redirect({ error: "details" });
+  }
+
+  const { bucket } = resolveClient(request.headers);
+  const rateLimit = await checkRateLimit("portal", { ip: bucket, email });
+  if (!rateLimit.allowed) return redirect({ error: "rate_limited" });
+
+  try {
+    await requestPortalCode(email, idNumber);
+  } catch (error) {
+    console.error("Portal code request failed:", error);
+    return redirect({ error: "unavailable" });
+  }
+
+  return redirect({ step: "code", email });
+}
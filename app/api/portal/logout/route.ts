@@ -0,0 +1,13 @@
+// app/api/portal/logout/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { currentPortalSession, endPortalSession, PORTAL_COOKIE } from "@/lib/portal";
+import { sessionCookieOptions } from "@/lib/session";
+
+export async function POST(request: NextRequest) {
+  const session = await currentPortalSession();
+  if (session) await endPortalSession(session.id);
+
+  const response = NextResponse.redirect(new URL("/portal", request.url), 303);
+  response.cookies.set(PORTAL_COOKIE, "", sessionCookieOptions(0));
+  return response;
+}
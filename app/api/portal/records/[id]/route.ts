@@ -0,0 +1,41 @@
+// app/api/portal/records/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { buildDataExport, currentPortalSession } from "@/lib/portal";
+import { getSubmission } from "@/lib/submissions";
+import { auditContext, recordAudit } from "@/lib/audit";
+
+// Download everything held about one of the guest's registrations as JSON
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const session = await currentPortalSession();
+  if (!session || !session.recordIds.includes(id)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const audit = auditContext(request.headers, "guest-portal");
+  try {
+    const record = await getSubmission(id);
+    if (!record) {
+      await recordAudit(audit, "export", id, "not_found", "json");
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 });
+    }
+
+    const body = JSON.stringify(await buildDataExport(record), null, 2);
+    await recordAudit(audit, "export", id, "success", "json");
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="guest-registration-${id}.json"`,
+        "Cache-Control": "private, no-cache, no-store, must-revalidate",
+      },
+    });
+  } catch (error) {
+    console.error("Portal export error:", error);
+    await recordAudit(audit, "export", id, "error", "json");
+    return NextResponse.json({ error: "Failed to export registration" }, { status: 500 });
+  }
+}
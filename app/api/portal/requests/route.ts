@@ -0,0 +1,49 @@
+// app/api/portal/requests/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { currentPortalSession } from "@/lib/portal";
+import { CORRECTABLE_FIELDS, CorrectionSchema, createGuestRequest, listRequestsForRecord } from "@/lib/guest-requests";
+
+// Lodge a correction or erasure request from the portal. It waits for a host
+// to review it in /admin/requests.
+export async function POST(request: NextRequest) {
+  const session = await currentPortalSession();
+  if (!session) return NextResponse.redirect(new URL("/portal", request.url), 303);
+
+  const form = await request.formData().catch(() => null);
+  const recordId = String(form?.get("recordId") ?? "");
+  const type = form?.get("type");
+  const note = String(form?.get("note") ?? "");
+
+  const back = (params: Record<string, string>) => {
+    const url = new URL("/portal/records", request.url);
+    for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+    return NextResponse.redirect(url, 303);
+  };
+
+  if (!session.recordIds.includes(recordId) || (type !== "correction" && type !== "erasure")) {
+    return back({ error: "request" });
+  }
+
+  if (type === "erasure") {
+    const existing = await listRequestsForRecord(recordId);
+    if (existing.some(r => r.type === "erasure" && r.status === "pending")) {
+      return back({ submitted: "erasure" });
+    }
+    await createGuestRequest({ type, recordId, email: session.email, note });
+    return back({ submitted: "erasure" });
+  }
+
+  const corrections: Record<string, string> = {};
+  for (const field of CORRECTABLE_FIELDS) {
+    const value = String(form?.get(field) ?? "").trim();
+    if (value) corrections[field] = value;
+  }
+
+  const parsed = CorrectionSchema.safeParse(corrections);
+  if (!parsed.success) {
+    return back({ error: "correction", message: parsed.error.errors[0]?.message ?? "Invalid correction" });
+  }
+
+  await createGuestRequest({ type, recordId, email: session.email, corrections: parsed.data, note });
+  return back({ submitted: "correction" });
+}
@@ -0,0 +1,33 @@
+// app/api/portal/verify/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { PORTAL_COOKIE, PORTAL_SESSION_SECONDS, verifyPortalCode } from "@/lib/portal";
+import { normalizeEmail } from "@/lib/kv";
+import { sessionCookieOptions } from "@/lib/session";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { resolveClient } from "@/lib/client-ip";
+
+// Step 2 of the guest portal: trade the emailed code for a portal session
+export async function POST(request: NextRequest) {
+  const form = await request.formData().catch(() => null);
+  const email = normalizeEmail(String(form?.get("email") ?? ""));
+  const code = String(form?.get("code") ?? "");
+
+  const retry = (error: string) => {
+    const url = new URL("/portal", request.url);
+    url.searchParams.set("step", "code");
+    url.searchParams.set("email", email);
+    url.searchParams.set("error", error);
+    return NextResponse.redirect(url, 303);
+  };
+
+  const { bucket } = resolveClient(request.headers);
+  const rateLimit = await checkRateLimit("portal", { ip: bucket, email });
+  if (!rateLimit.allowed) return retry("rate_limited");
+
+  const sessionId = email && code ? await verifyPortalCode(email, code) : null;
+  if (!sessionId) return retry("code");
+
+  const response = NextResponse.redirect(new URL("/portal/records", request.url), 303);
+  response.cookies.set(PORTAL_COOKIE, sessionId, sessionCookieOptions(PORTAL_SESSION_SECONDS));
+  return response;
+}
@@ -1,186 +1,70 @@
 // app/api/submit/route.ts
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { kvGet, kvSet } from "@/lib/kv";
+import { normalizeIdNumber, StorageUnavailableError, type WriteResult } from "@/lib/kv";
 import { headers } from "next/headers";
+import { putDataUrl } from "@/lib/blob";
+import { saveSubmission } from "@/lib/submissions";
+import { isMinor, RegistrationSchema, type RegistrationData } from "@/lib/registration";
+import { CURRENT_SCHEMA_VERSION, type StoredCompanion, type SubmissionRecord } from "@/lib/records";
+import { checkRateLimit, combineRateLimits, rateLimitHeaders, type RateLimitResult } from "@/lib/rate-limit";
+import { resolveClient } from "@/lib/client-ip";
+import { recordAudit } from "@/lib/audit";
+import { createGuestLinkToken, successPath } from "@/lib/signed-links";
+import { getProperty, type Property } from "@/lib/properties";
+import { CUSTOM_FILE_TYPES, customAnswersSchema, type CustomAnswer, type CustomField } from "@/lib/custom-fields";
+import { currentPolicies, POLICY_KINDS, type PolicyAcceptance } from "@/lib/policies";
+import { bookingFromInvite, getBooking, linkRegistration, matchBooking, type Booking } from "@/lib/bookings";
+import { claimPartyInvite, completePartyInvite, newPartyInvites, partyInviteFromLink, releasePartyInvite, type PartyInvite } from "@/lib/party";
 
-// Enhanced validation schema
-const RegistrationSchema = z.object({
-  // Personal Information
-  fullName: z.string()
-    .min(2, "Full name must be at least 2 characters")
-    .max(100, "Full name must be less than 100 characters")
-    .regex(/^[a-zA-Z\s\-'\.]+$/, "Full name contains invalid characters"),
-  
-  idOrPassport: z.string()
-    .min(4, "ID/Passport must be at least 4 characters")
-    .max(20, "ID/Passport must be less than 20 characters")
-    .regex(/^[a-zA-Z0-9\-]+$/, "ID/Passport contains invalid characters"),
-  
-  nationality: z.string()
-    .min(2, "Nationality must be at least 2 characters")
-    .max(50, "Nationality must be less than 50 characters")
-    .regex(/^[a-zA-Z\s]+$/, "Nationality contains invalid characters"),
-  
-  residenceStatus: z.string()
-    .min(2, "Residence status must be at least 2 characters")
-    .max(100, "Residence status must be less than 100 characters"),
-  
-  homeAddress: z.string()
-    .min(5, "Home address must be at least 5 characters")
-    .max(300, "Home address must be less than 300 characters"),
-  
-  // Contact Information
-  phone: z.string()
-    .min(6, "Phone number must be at least 6 characters")
-    .max(20, "Phone number must be less than 20 characters")
-    .regex(/^[\+]?[\d\s\-\(\)]+$/, "Invalid phone number format"),
-  
-  email: z.string()
-    .email("Invalid email address")
-    .max(100, "Email must be less than 100 characters")
-    .toLowerCase(),
-  
-  // Stay Details
-  checkIn: z.string()
-    .min(4, "Check-in date is required")
-    .refine((date) => {
-      const checkInDate = new Date(date);
-      const now = new Date();
-      return checkInDate > now;
-    }, "Check-in date must be in the future"),
-  
-  checkOut: z.string()
-    .min(4, "Check-out date is required"),
-  
-  guests: z.number()
-    .int("Number of guests must be a whole number")
-    .min(1, "At least 1 guest is required")
-    .max(20, "Maximum 20 guests allowed"),
-  
-  // Image/Document uploads (base64 validation)
-  selfie: z.string()
-    .min(10, "Selfie is required")
-    .refine((data) => {
-      try {
-        if (!data.startsWith('data:image/')) return false;
-        const base64 = data.split(',')[1];
-        if (!base64) return false;
-        
-        // Estimate file size (base64 is ~1.37x larger than binary)
-        const sizeInBytes = (base64.length * 3) / 4;
-        const maxSize = 5 * 1024 * 1024; // 5MB
-        
-        return sizeInBytes <= maxSize;
-      } catch {
-        return false;
-      }
-    }, "Invalid selfie image or file too large (max 5MB)"),
-  
-  idImage: z.string()
-    .min(10, "ID/Passport image is required")
-    .refine((data) => {
-      try {
-        if (!data.startsWith('data:image/')) return false;
-        const base64 = data.split(',')[1];
-        if (!base64) return false;
-        
-        const sizeInBytes = (base64.length * 3) / 4;
-        const maxSize = 5 * 1024 * 1024; // 5MB
-        
-        return sizeInBytes <= maxSize;
-      } catch {
-        return false;
-      }
-    }, "Invalid ID/Passport image or file too large (max 5MB)"),
-  
-  signature: z.string()
-    .min(10, "Digital signature is required")
-    .refine((data) => {
-      try {
-        if (!data.startsWith('data:image/')) return false;
-        const base64 = data.split(',')[1];
-        if (!base64) return false;
-        
-        const sizeInBytes = (base64.length * 3) / 4;
-        const maxSize = 1 * 1024 * 1024; // 1MB for signatures
-        
-        return sizeInBytes <= maxSize;
-      } catch {
-        return false;
-      }
-    }, "Invalid signature or file too large (max 1MB)"),
-  
-  // Consent checkboxes
-  popiaConsent: z.literal(true, {
-    errorMap: () => ({ message: "POPIA consent is required" })
-  }),
-  
-  nonRefundAck: z.literal(true, {
-    errorMap: () => ({ message: "Non-refund policy acknowledgment is required" })
-  }),
-})
-// Cross-field validation
-.refine((data) => {
-  const checkIn = new Date(data.checkIn);
-  const checkOut = new Date(data.checkOut);
-  return checkOut > checkIn;
-}, {
-  message: "Check-out date must be after check-in date",
-  path: ["checkOut"]
-})
-.refine((data) => {
-  const checkIn = new Date(data.checkIn);
-  const checkOut = new Date(data.checkOut);
-  const diffTime = Math.abs(checkOut.getTime() - checkIn.getTime());
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  return diffDays <= 365; // Maximum 1 year stay
-}, {
-  message: "Stay duration cannot exceed 365 days",
-  path: ["checkOut"]
-});
+// The policy versions the form says the guest accepted
+const AcceptedPoliciesSchema = z.array(z.object({
+  kind: z.enum(POLICY_KINDS),
+  version: z.number().int().min(1),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+})).max(POLICY_KINDS.length).default([]);
 
-// Type for validated data
-type RegistrationData = z.infer<typeof RegistrationSchema>;
-
-interface SubmissionRecord {
-  id: string;
-  createdAt: number;
-  data: RegistrationData;
-  metadata: {
-    userAgent?: string;
-    ip?: string;
-    timestamp: string;
-  };
+function rateLimitExceeded(result: RateLimitResult) {
+  const minutes = Math.max(Math.ceil((result.resetAt - Date.now()) / 60000), 1);
+  return NextResponse.json(
+    { 
+      error: "Rate limit exceeded", 
+      message: `Too many submissions. Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.` 
+    },
+    { status: 429, headers: rateLimitHeaders(result) }
+  );
 }
 
-// Simple rate limiting using KV store
-async function checkRateLimit(identifier: string): Promise<boolean> {
-  const key = `rate_limit:${identifier}`;
-  const windowMs = 15 * 60 * 1000; // 15 minutes
-  const maxRequests = 3; // 3 submissions per 15 minutes
+function validationFailed(error: z.ZodError) {
+  const errorMessages = error.errors.map(err => ({
+    field: err.path.join('.'),
+    message: err.message
+  }));
   
-  try {
-    const record = await kvGet<{ count: number; resetTime: number }>(key);
-    const now = Date.now();
-    
-    if (!record || now > record.resetTime) {
-      // Create new window
-      await kvSet(key, { count: 1, resetTime: now + windowMs }, { ex: Math.floor(windowMs / 1000) });
-      return true;
-    }
-    
-    if (record.count >= maxRequests) {
-      return false; // Rate limit exceeded
-    }
-    
-    // Increment counter
-    await kvSet(key, { count: record.count + 1, resetTime: record.resetTime }, { ex: Math.floor((record.resetTime - now) / 1000) });
-    return true;
-  } catch (error) {
-    console.error("Rate limiting error:", error);
-    return true; // Allow if rate limiting fails
+  return NextResponse.json(
+    { 
+      error: "Validation failed", 
+      details: errorMessages 
+    },
+    { status: 400 }
+  );
+}
+
+// Answers to the property's own questions, with the label they were asked
+// with; uploads go to the blob store like the other images
+async function storeCustomAnswers(fields: CustomField[], answers: Record<string, unknown>): Promise<CustomAnswer[]> {
+  const stored: CustomAnswer[] = [];
+  for (const field of fields) {
+    const value = answers[field.key];
+    if (value === undefined) continue;
+    stored.push({
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      value: field.type === "file" ? await putDataUrl(value as string, CUSTOM_FILE_TYPES) : (value as string | boolean),
+    });
   }
+  return stored;
 }
 
 // Security: Check for potential spam patterns
@@ -201,20 +85,12 @@ export async function POST(request: NextRequest) {
   try {
     // Get client information for rate limiting and logging
     const headersList = await headers();
-    const userAgent = headersList.get("user-agent") || "";
-    const forwarded = headersList.get("x-forwarded-for");
-    const ip = forwarded ? forwarded.split(",")[0] : headersList.get("x-real-ip") || "unknown";
+    const { ip, bucket, userAgent } = resolveClient(headersList);
     
-    // Rate limiting based on IP
-    const rateLimitPassed = await checkRateLimit(ip);
-    if (!rateLimitPassed) {
-      return NextResponse.json(
-        { 
-          error: "Rate limit exceeded", 
-          message: "Too many submissions. Please try again in 15 minutes." 
-        },
-        { status: 429 }
-      );
+    // Rate limiting based on IP (IPv6 clients share a limit per /64)
+    const ipLimit = await checkRateLimit("submit", { ip: bucket });
+    if (!ipLimit.allowed) {
+      return rateLimitExceeded(ipLimit);
     }
     
     // Parse request body
@@ -228,31 +104,129 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Registering through a booking invitation: the stay details come from
+    // the booking, whatever the form sent
+    let booking: Booking | null = null;
+    if (payload?.booking !== undefined && payload?.booking !== null) {
+      booking = await bookingFromInvite(payload.booking, payload.inviteToken);
+      if (!booking) {
+        return NextResponse.json(
+          { error: "Invalid invitation", message: "This invitation link is invalid or has expired. Please ask your host for a new one." },
+          { status: 400 }
+        );
+      }
+      payload = {
+        ...payload,
+        propertyId: booking.propertyId,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+        // Imported bookings don't know the party size; the guest gives it
+        ...(booking.guests !== undefined && { guests: booking.guests }),
+      };
+    }
+    
+    // A co-traveller registering through the lead guest's link: the stay is
+    // the lead guest's, and they register for themselves only
+    let party: { lead: SubmissionRecord; invite: PartyInvite } | null = null;
+    if (payload?.party !== undefined && payload?.party !== null) {
+      party = await partyInviteFromLink(payload.party, payload.partyGuest, payload.partyToken);
+      if (!party) {
+        return NextResponse.json(
+          {
+            error: "Invalid invitation",
+            message: "This registration link is invalid, has expired or has already been used. Please ask the guest who booked for a new one."
+          },
+          { status: 400 }
+        );
+      }
+      const { lead } = party;
+      booking = lead.bookingId ? await getBooking(lead.bookingId) : null;
+      payload = {
+        ...payload,
+        propertyId: lead.propertyId,
+        checkIn: lead.data.checkIn,
+        checkOut: lead.data.checkOut,
+        guests: 1,
+        companions: [],
+        invitedGuests: [],
+      };
+    }
+    
     // Validate input data
     let validatedData: RegistrationData;
     try {
       validatedData = RegistrationSchema.parse(payload);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const errorMessages = error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message
-        }));
-        
+        return validationFailed(error);
+      }
+      
+      return NextResponse.json(
+        { error: "Validation error" },
+        { status: 400 }
+      );
+    }
+    
+    // The property from the registration URL (/register/<slug>), if any
+    let property: Property | null = null;
+    if (payload?.propertyId !== undefined && payload?.propertyId !== null) {
+      property = typeof payload.propertyId === "string" ? await getProperty(payload.propertyId) : null;
+      if (!property) {
         return NextResponse.json(
-          { 
-            error: "Validation failed", 
-            details: errorMessages 
-          },
+          { error: "Unknown property", message: "This registration link is not valid. Please use the link from your booking." },
           { status: 400 }
         );
       }
-      
+    }
+    
+    // The property's custom fields, validated by the schema generated from
+    // their definitions; the lead guest answers them for a co-traveller
+    let customAnswers: Record<string, unknown> = {};
+    if (property && !party && property.customFields.length > 0) {
+      const custom = z.object({ custom: customAnswersSchema(property.customFields) }).safeParse({ custom: payload.custom ?? {} });
+      if (!custom.success) {
+        return validationFailed(custom.error);
+      }
+      customAnswers = custom.data.custom;
+    }
+    
+    // Every current policy must be accepted, in the version now in force
+    const accepted = AcceptedPoliciesSchema.safeParse(payload.acceptedPolicies);
+    if (!accepted.success) {
       return NextResponse.json(
         { error: "Validation error" },
         { status: 400 }
       );
     }
+    const acceptedAt = new Date().toISOString();
+    const policies: PolicyAcceptance[] = [];
+    for (const policy of await currentPolicies()) {
+      const acceptance = accepted.data.find(a => a.kind === policy.kind);
+      if (!acceptance) {
+        return validationFailed(new z.ZodError([
+          { code: z.ZodIssueCode.custom, path: ["policies", policy.kind], message: `Please accept the ${policy.title}` },
+        ]));
+      }
+      if (acceptance.version !== policy.version || acceptance.sha256 !== policy.sha256) {
+        return NextResponse.json(
+          {
+            error: "Policy updated",
+            message: `The ${policy.title} has changed since you opened this form. Please reload the page and review it.`
+          },
+          { status: 409 }
+        );
+      }
+      policies.push({ kind: policy.kind, version: policy.version, sha256: policy.sha256, acceptedAt });
+    }
+    
+    // Rate limiting on the guest's identity as well, so rotating IPs doesn't help
+    const rateLimit = combineRateLimits(ipLimit, await checkRateLimit("submit", {
+      email: validatedData.email,
+      idNumber: normalizeIdNumber(validatedData.idOrPassport),
+    }));
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit);
+    }
     
     // Check for spam patterns
     if (detectSpamPatterns(validatedData)) {
@@ -263,30 +237,116 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Generate unique ID
+    // Without an invitation, find the booking by the code the guest gave or the stay dates
+    if (!booking && !party && property) {
+      const reservationCode = typeof payload.reservationCode === "string" ? payload.reservationCode.trim() : "";
+      booking = await matchBooking(property.slug, validatedData.checkIn, validatedData.checkOut, reservationCode || undefined);
+    }
+    
+    // Generate unique ID and the guest's signed link (before storing anything,
+    // so a missing signing secret fails the request cleanly)
     const submissionId = crypto.randomUUID();
+    const guestToken = createGuestLinkToken(submissionId);
     
-    // Create submission record
-    const submission: SubmissionRecord = {
-      id: submissionId,
-      createdAt: Date.now(),
-      data: validatedData,
-      metadata: {
-        userAgent,
-        ip,
-        timestamp: new Date().toISOString()
+    // Only one registration per co-traveller link, however many are submitted
+    // at once. Claimed before anything is stored, and given back if storing fails
+    if (party && !(await claimPartyInvite(party.lead.id, party.invite.id))) {
+      return NextResponse.json(
+        {
+          error: "Invalid invitation",
+          message: "This registration link has already been used. Please ask the guest who booked for a new one."
+        },
+        { status: 400 }
+      );
+    }
+    
+    let submission: SubmissionRecord;
+    let write: WriteResult;
+    try {
+      // Move images out of the payload into the blob store; guests registering
+      // themselves are kept as invitations, not registration data
+      const { invitedGuests, ...registration } = validatedData;
+      const [selfie, idImage, signature, companionIdImages, custom] = await Promise.all([
+        putDataUrl(validatedData.selfie),
+        putDataUrl(validatedData.idImage),
+        putDataUrl(validatedData.signature),
+        Promise.all(validatedData.companions.map(companion => (companion.idImage ? putDataUrl(companion.idImage) : undefined))),
+        storeCustomAnswers(property?.customFields ?? [], customAnswers),
+      ]);
+      
+      // Minors keep their guardian's relationship and consent, recorded against
+      // the lead guest's signature; adults carry neither
+      const companions = validatedData.companions.map((companion, index): StoredCompanion => {
+        const stored: StoredCompanion = {
+          fullName: companion.fullName,
+          idOrPassport: companion.idOrPassport,
+          nationality: companion.nationality,
+          dateOfBirth: companion.dateOfBirth,
+          ...(companionIdImages[index] && { idImage: companionIdImages[index] }),
+        };
+        if (!isMinor(companion.dateOfBirth, validatedData.checkIn)) return stored;
+        return {
+          ...stored,
+          guardianRelationship: companion.guardianRelationship,
+          guardianConsent: { at: acceptedAt, by: validatedData.fullName, signatureSha256: signature.sha256 },
+        };
+      });
+      
+      // Create submission record
+      submission = {
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        id: submissionId,
+        createdAt: Date.now(),
+        ...(property && { propertyId: property.slug }),
+        ...(booking && { bookingId: booking.id }),
+        ...(party && { leadId: party.lead.id }),
+        ...(invitedGuests.length > 0 && { party: newPartyInvites(invitedGuests) }),
+        policies,
+        data: { ...registration, selfie, idImage, signature, companions, ...(custom.length > 0 && { custom }) },
+        metadata: {
+          userAgent,
+          ip,
+          timestamp: new Date().toISOString()
+        }
+      };
+      
+      // Store in KV (sensitive fields sealed) and index it
+      write = await saveSubmission(submission);
+    } catch (error) {
+      if (party) await releasePartyInvite(party.lead.id, party.invite.id).catch(() => undefined);
+      throw error;
+    }
+    if (write.status === "journaled") {
+      console.warn("Guest registration journaled, storage unavailable:", { id: submissionId });
+    }
+    await recordAudit({ actor: "guest", ip, userAgent }, "create", submissionId, "success");
+    
+    // Mark the booking as registered; the registration itself is already safe
+    if (booking) {
+      try {
+        await linkRegistration(booking.id, submissionId);
+      } catch (error) {
+        console.error("Failed to link registration to booking:", { id: submissionId, bookingId: booking.id, error });
       }
-    };
+    }
     
-    // Store in KV with expiration (e.g., 7 years for legal compliance)
-    const expirationSeconds = 7 * 365 * 24 * 60 * 60; // 7 years
-    await kvSet(`guest:${submissionId}`, submission, { ex: expirationSeconds });
+    // Mark the co-traveller's invitation as used
+    if (party) {
+      try {
+        await completePartyInvite(party.lead.id, party.invite.id, submissionId);
+      } catch (error) {
+        console.error("Failed to mark party invitation used:", { id: submissionId, leadId: party.lead.id, error });
+      }
+    }
     
     // Log successful submission (remove sensitive data)
     console.log("Guest registration submitted:", {
       id: submissionId,
       email: validatedData.email,
       checkIn: validatedData.checkIn,
+      propertyId: property?.slug,
+      bookingId: booking?.id,
+      leadId: party?.lead.id,
       guests: validatedData.guests,
       ip,
       timestamp: submission.metadata.timestamp
@@ -297,11 +357,15 @@ export async function POST(request: NextRequest) {
       { 
         success: true,
         id: submissionId,
+        successUrl: successPath(submissionId, guestToken),
+        persisted: write.status,
         message: "Registration submitted successfully"
       },
       { 
-        status: 201,
+        // 202: held in the local journal until the store accepts it
+        status: write.status === "stored" ? 201 : 202,
         headers: {
+          ...rateLimitHeaders(rateLimit),
           "X-Content-Type-Options": "nosniff",
           "X-Frame-Options": "DENY",
           "X-XSS-Protection": "1; mode=block"
@@ -310,6 +374,17 @@ export async function POST(request: NextRequest) {
     );
     
   } catch (error) {
+    if (error instanceof StorageUnavailableError) {
+      console.error("Submission rejected, storage unavailable:", error.cause ?? error);
+      return NextResponse.json(
+        {
+          error: "Service unavailable",
+          message: "We could not save your registration. Nothing was stored - please try again shortly."
+        },
+        { status: 503, headers: { "Retry-After": "60" } }
+      );
+    }
+
     console.error("Submission error:", error);
     
     return NextResponse.json(
@@ -118,9 +118,6 @@ export default function RootLayout({
         <meta httpEquiv="X-Frame-Options" content="DENY" />
         <meta httpEquiv="X-XSS-Protection" content="1; mode=block" />
         <meta httpEquiv="Referrer-Policy" content="strict-origin-when-cross-origin" />
-        
-        {/* DNS Prefetch for better performance */}
-        <link rel="dns-prefetch" href="//api.qrserver.com" />
       </head>
       <body className="font-sans antialiased">
         {/* Skip to main content for accessibility */}
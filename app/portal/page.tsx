@@ -0,0 +1,89 @@
+// app/portal/page.tsx
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { currentPortalSession } from "@/lib/portal";
+
+export const metadata: Metadata = {
+  title: "Guest portal",
+  robots: { index: false, follow: false },
+};
+
+export const dynamic = "force-dynamic";
+
+interface PortalPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const ERRORS: Record<string, string> = {
+  details: "Enter the email address and ID or passport number you registered with.",
+  code: "That code is incorrect or has expired. Check the latest email or request a new code.",
+  rate_limited: "Too many attempts. Please wait an hour and try again.",
+  unavailable: "We couldn't send a code right now. Please try again later.",
+};
+
+const inputClass = "border border-gray-300 rounded-md px-3 py-2";
+
+export default async function PortalPage({ searchParams }: PortalPageProps) {
+  if (await currentPortalSession()) redirect("/portal/records");
+
+  const params = await searchParams;
+  const email = typeof params.email === "string" ? params.email : "";
+  const codeStep = params.step === "code" && email !== "";
+  const error = typeof params.error === "string" ? ERRORS[params.error] : undefined;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12 px-4">
+      <div className="max-w-md mx-auto bg-white rounded-xl shadow-lg p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Your registration</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          See and download the details we hold about you, ask for corrections, or ask for them to be erased.
+        </p>
+
+        {error && (
+          <p role="alert" className="mb-4 rounded-md bg-red-50 border border-red-200 px-3 py-2 text-sm text-red-800">
+            {error}
+          </p>
+        )}
+
+        {codeStep ? (
+          <form method="post" action="/api/portal/verify" className="space-y-4 text-sm">
+            <p className="text-gray-700">
+              If <strong>{email}</strong> matches a registration, we have emailed it a 6-digit code. It expires in 10
+              minutes.
+            </p>
+            <input type="hidden" name="email" value={email} />
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Code</span>
+              <input
+                name="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                pattern="[0-9 ]*"
+                required
+                className={inputClass}
+              />
+            </label>
+            <button type="submit" className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              Continue
+            </button>
+            <a href="/portal" className="block text-center text-blue-600 hover:underline">Request a new code</a>
+          </form>
+        ) : (
+          <form method="post" action="/api/portal/code" className="space-y-4 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">Email address</span>
+              <input type="email" name="email" autoComplete="email" required defaultValue={email} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">ID or passport number</span>
+              <input name="idNumber" autoComplete="off" required className={inputClass} />
+            </label>
+            <button type="submit" className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              Email me a code
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
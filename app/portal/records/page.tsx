@@ -0,0 +1,190 @@
+// app/portal/records/page.tsx
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import dayjs from "dayjs";
+import { currentPortalSession } from "@/lib/portal";
+import { getSubmission } from "@/lib/submissions";
+import { auditContext, recordAudit } from "@/lib/audit";
+import { CORRECTABLE_FIELDS, listRequestsForRecord, type CorrectableField } from "@/lib/guest-requests";
+import { createGuestLinkToken, pdfPath } from "@/lib/signed-links";
+import type { SubmissionRecord } from "@/lib/records";
+
+export const metadata: Metadata = {
+  title: "Your registrations",
+  robots: { index: false, follow: false },
+};
+
+export const dynamic = "force-dynamic";
+
+interface PortalRecordsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const FIELD_LABELS: Record<CorrectableField, string> = {
+  fullName: "Full name",
+  idOrPassport: "ID / Passport",
+  nationality: "Nationality",
+  dateOfBirth: "Date of birth",
+  residenceStatus: "Residence status",
+  homeAddress: "Home address",
+  phone: "Phone",
+  email: "Email",
+};
+
+const STATUS_LABELS = {
+  pending: "Waiting for review",
+  completed: "Done",
+  restricted: "Partly done",
+  rejected: "Declined",
+} as const;
+
+function notice(params: Record<string, string | string[] | undefined>): { tone: "ok" | "error"; text: string } | null {
+  if (params.submitted === "correction") return { tone: "ok", text: "Your correction request has been sent to your host." };
+  if (params.submitted === "erasure") return { tone: "ok", text: "Your erasure request has been sent to your host." };
+  if (params.error === "correction") {
+    return { tone: "error", text: typeof params.message === "string" ? params.message : "Please check the corrected values." };
+  }
+  if (params.error === "request") return { tone: "error", text: "That request couldn't be submitted." };
+  return null;
+}
+
+async function RecordCard({ record }: { record: SubmissionRecord }) {
+  const { id, data } = record;
+  const requests = await listRequestsForRecord(id);
+  const erasurePending = requests.some(r => r.type === "erasure" && r.status === "pending");
+
+  return (
+    <section className="bg-white rounded-xl shadow-lg p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            {dayjs(data.checkIn).format("D MMM YYYY")} &ndash; {dayjs(data.checkOut).format("D MMM YYYY")}
+          </h2>
+          <p className="text-xs text-gray-500 font-mono">{id}</p>
+        </div>
+        <div className="flex gap-3 text-sm">
+          <a href={`/api/portal/records/${id}`} className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            Download my data (JSON)
+          </a>
+          <a
+            href={pdfPath(id, createGuestLinkToken(id))}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="px-3 py-2 bg-gray-100 text-gray-900 rounded-md hover:bg-gray-200"
+          >
+            Registration PDF
+          </a>
+        </div>
+      </div>
+
+      <form method="post" action="/api/portal/requests" className="space-y-4 text-sm">
+        <input type="hidden" name="recordId" value={id} />
+        <input type="hidden" name="type" value="correction" />
+        <h3 className="font-semibold text-gray-900">Your details</h3>
+        <p className="text-gray-600">Fill in only the values that are wrong. Your host reviews every correction.</p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CORRECTABLE_FIELDS.map(field => (
+            <label key={field} className="flex flex-col gap-1">
+              <span className="font-medium text-gray-700">{FIELD_LABELS[field]}</span>
+              <span className="text-gray-900 break-words">{data[field]}</span>
+              <input
+                name={field}
+                type={field === "dateOfBirth" ? "date" : "text"}
+                placeholder="Corrected value"
+                className="border border-gray-300 rounded-md px-3 py-2"
+              />
+            </label>
+          ))}
+        </div>
+        <label className="flex flex-col gap-1">
+          <span className="font-medium text-gray-700">Note to your host (optional)</span>
+          <textarea name="note" rows={2} maxLength={1000} className="border border-gray-300 rounded-md px-3 py-2" />
+        </label>
+        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Request correction
+        </button>
+      </form>
+
+      <form method="post" action="/api/portal/requests" className="space-y-3 text-sm border-t border-gray-200 pt-6">
+        <input type="hidden" name="recordId" value={id} />
+        <input type="hidden" name="type" value="erasure" />
+        <h3 className="font-semibold text-gray-900">Erase my registration</h3>
+        <p className="text-gray-600">
+          The Immigration Act requires accommodation providers to keep a guest register for a period after your stay.
+          Anything not covered by that, such as your selfie and ID image, is removed straight away; the rest is
+          deleted once the period ends.
+        </p>
+        <button
+          type="submit"
+          disabled={erasurePending}
+          className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+        >
+          {erasurePending ? "Erasure requested" : "Request erasure"}
+        </button>
+      </form>
+
+      {requests.length > 0 && (
+        <div className="border-t border-gray-200 pt-6 text-sm">
+          <h3 className="font-semibold text-gray-900 mb-2">Your requests</h3>
+          <ul className="space-y-2">
+            {requests.map(request => (
+              <li key={request.id} className="text-gray-700">
+                <span className="font-medium capitalize">{request.type}</span>{" "}
+                <span className="text-gray-500">{dayjs(request.createdAt).format("D MMM YYYY HH:mm")}</span>{" "}
+                &middot; {STATUS_LABELS[request.status]}
+                {request.resolution && <p className="text-gray-600">{request.resolution.message}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default async function PortalRecordsPage({ searchParams }: PortalRecordsPageProps) {
+  const session = await currentPortalSession();
+  if (!session) redirect("/portal");
+
+  const params = await searchParams;
+  const message = notice(params);
+
+  const audit = auditContext(await headers(), "guest-portal");
+  const records: SubmissionRecord[] = [];
+  for (const id of session.recordIds) {
+    const record = await getSubmission(id);
+    await recordAudit(audit, "read", id, record ? "success" : "not_found", "portal");
+    if (record) records.push(record);
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-900">Your registrations</h1>
+          <form method="post" action="/api/portal/logout">
+            <button type="submit" className="text-sm text-gray-600 hover:text-gray-900">Sign out</button>
+          </form>
+        </div>
+
+        {message && (
+          <p
+            role={message.tone === "error" ? "alert" : "status"}
+            className={`rounded-md border px-3 py-2 text-sm ${
+              message.tone === "error" ? "bg-red-50 border-red-200 text-red-800" : "bg-green-50 border-green-200 text-green-800"
+            }`}
+          >
+            {message.text}
+          </p>
+        )}
+
+        {records.length === 0 ? (
+          <p className="bg-white rounded-xl shadow-lg p-6 text-gray-600">We no longer hold any registrations for you.</p>
+        ) : (
+          records.map(record => <RecordCard key={record.id} record={record} />)
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,94 @@
+// app/register/[property]/page.tsx
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import RegistrationForm from "@/components/RegistrationForm";
+import { getProperty, type Property } from "@/lib/properties";
+import { currentPolicies, policyText } from "@/lib/policies";
+import { bookingFromInvite, invitePath } from "@/lib/bookings";
+import { partyInviteFromLink, partyInvitePath } from "@/lib/party";
+
+export const dynamic = "force-dynamic";
+
+interface PropertyRegisterPageProps {
+  params: Promise<{ property: string }>;
+  searchParams: Promise<{ booking?: string; party?: string; guest?: string; token?: string }>;
+}
+
+export async function generateMetadata({ params }: PropertyRegisterPageProps): Promise<Metadata> {
+  const property = await getProperty((await params).property);
+  return { title: property ? `Register - ${property.name}` : "Register" };
+}
+
+// Shown for tampered, expired, cancelled or used invitations, with the host's contacts
+function InvitationExpired({ property }: { property: Property }) {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12 px-4">
+      <div className="max-w-2xl mx-auto text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">This invitation has expired</h1>
+        <p className="text-lg text-gray-600 mb-2">
+          Invitation links stop working once the stay is over, if the booking was cancelled, or if the link was
+          changed. A link for another guest in a party works once, until check-in. Please ask your host for a new one.
+        </p>
+        <p className="text-gray-600">
+          {property.name}: {property.contactEmail} / {property.contactPhone}
+        </p>
+      </div>
+    </main>
+  );
+}
+
+export default async function PropertyRegisterPage({ params, searchParams }: PropertyRegisterPageProps) {
+  const property = await getProperty((await params).property);
+  if (!property) notFound();
+  const { booking: bookingId, party: leadId, guest, token } = await searchParams;
+
+  // Opened from a co-traveller's link: the stay comes from the lead guest's registration
+  const coTraveller = leadId ? await partyInviteFromLink(leadId, guest, token) : null;
+  if (leadId && !coTraveller) {
+    return <InvitationExpired property={property} />;
+  }
+  if (coTraveller && coTraveller.lead.propertyId !== property.slug) {
+    redirect(partyInvitePath(coTraveller.lead, coTraveller.invite));
+  }
+
+  // Opened from a booking invitation: the stay details come from the booking
+  const booking = bookingId ? await bookingFromInvite(bookingId, token) : null;
+  if (bookingId && !booking) {
+    return <InvitationExpired property={property} />;
+  }
+  if (booking && booking.propertyId !== property.slug) {
+    redirect(invitePath(booking));
+  }
+
+  const policies = await currentPolicies();
+
+  return (
+    <RegistrationForm
+      property={{
+        slug: property.slug,
+        name: property.name,
+        checkInFrom: property.checkInFrom,
+        checkOutBy: property.checkOutBy,
+        customFields: property.customFields,
+      }}
+      policies={policies.map(policyText)}
+      booking={booking && token ? {
+        id: booking.id,
+        token,
+        confirmationCode: booking.confirmationCode,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+        guests: booking.guests,
+      } : undefined}
+      coTraveller={coTraveller && token ? {
+        lead: coTraveller.lead.id,
+        guest: coTraveller.invite.id,
+        token,
+        fullName: coTraveller.invite.fullName,
+        leadName: coTraveller.lead.data.fullName,
+        checkIn: coTraveller.lead.data.checkIn,
+        checkOut: coTraveller.lead.data.checkOut,
+      } : undefined}
+    />
+  );
+}
@@ -1,41 +1,22 @@
 // app/success/[id]/page.tsx
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { kvGet } from "@/lib/kv";
+import Image from "next/image";
+import { getSubmission } from "@/lib/submissions";
 import dayjs from "dayjs";
 import QRCodeGenerator from "@/components/QRCodeGenerator";
-
-interface RegistrationData {
-  fullName: string;
-  idOrPassport: string;
-  nationality: string;
-  residenceStatus: string;
-  homeAddress: string;
-  phone: string;
-  email: string;
-  checkIn: string;
-  checkOut: string;
-  guests: number;
-  selfie: string;
-  idImage: string;
-  signature: string;
-  popiaConsent: boolean;
-  nonRefundAck: boolean;
-}
-
-interface Submission {
-  id: string;
-  createdAt: number;
-  data: RegistrationData;
-  metadata?: {
-    userAgent?: string;
-    ip?: string;
-    timestamp: string;
-  };
-}
+import type { SubmissionRecord } from "@/lib/records";
+import { headers } from "next/headers";
+import { auditContext, recordAudit } from "@/lib/audit";
+import { recordAccess } from "@/lib/auth";
+import { absoluteUrl } from "@/lib/signed-links";
+import { checkInPath } from "@/lib/arrivals";
+import { getProperty, whatsappNumber } from "@/lib/properties";
+import { partyInvitePath, partyInvites } from "@/lib/party";
 
 interface SuccessPageProps {
-  params: { id: string };
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ token?: string }>;
 }
 
 // Validate UUID format
@@ -44,22 +25,54 @@ function isValidUUID(uuid: string): boolean {
   return uuidRegex.test(uuid);
 }
 
-export default async function SuccessPage({ params }: SuccessPageProps) {
+// Shown for missing, tampered or expired links. Deliberately says nothing
+// about whether the registration exists.
+function LinkExpired() {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12 px-4">
+      <div className="max-w-2xl mx-auto text-center">
+        <h1 className="text-3xl font-bold text-gray-900 mb-4">This link has expired</h1>
+        <p className="text-lg text-gray-600 mb-8">
+          For your privacy, registration links only work for a limited time. You can see and download your
+          registration again on the <Link href="/portal" className="text-blue-600 hover:underline">guest portal</Link>.
+        </p>
+        <Link
+          href="/"
+          className="inline-block bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
+        >
+          Return Home
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+export default async function SuccessPage({ params, searchParams }: SuccessPageProps) {
   const { id } = await params;
+  const { token } = await searchParams;
 
   // Validate ID format
   if (!id || !isValidUUID(id)) {
     notFound();
   }
 
+  // Only the guest's signed link (or a staff session) opens this page
+  const access = await recordAccess(id, token, ["guest"], "registrations:read");
+  const audit = auditContext(await headers(), access?.actor ?? "anonymous");
+  if (!access) {
+    await recordAudit(audit, "read", id, "denied", "success-page");
+    return <LinkExpired />;
+  }
+
   // Fetch submission to verify it exists
-  let submission: Submission | null = null;
+  let submission: SubmissionRecord | null = null;
   try {
-    submission = await kvGet<Submission>(`guest:${id}`);
+    submission = await getSubmission(id);
   } catch (error) {
     console.error("Error fetching submission:", error);
   }
 
+  await recordAudit(audit, "read", id, submission ? "success" : "not_found", "success-page");
   if (!submission) {
     notFound();
   }
@@ -68,8 +81,15 @@ export default async function SuccessPage({ params }: SuccessPageProps) {
   const checkInDate = dayjs(data.checkIn);
   const checkOutDate = dayjs(data.checkOut);
   const submissionDate = dayjs(createdAt);
-  const pdfUrl = `/api/pdf/${id}`;
-  const currentUrl = typeof window !== 'undefined' ? window.location.origin + pdfUrl : pdfUrl;
+  const property = submission.propertyId ? await getProperty(submission.propertyId) : null;
+  // Links on this page reuse the guest's token
+  const linkQuery = token ? `?token=${encodeURIComponent(token)}` : "";
+  const pdfUrl = `/api/pdf/${id}${linkQuery}`;
+  // Opens the host's check-in page; it needs a staff login, so the code is safe to show
+  const qrUrl = absoluteUrl(checkInPath(id));
+  // Links for the guests registering themselves; they work until check-in
+  const invites = await partyInvites(submission);
+  const invitesOpen = checkInDate.isAfter(dayjs());
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 py-12 px-4">
@@ -83,7 +103,8 @@ export default async function SuccessPage({ params }: SuccessPageProps) {
           </div>
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Registration Complete!</h1>
           <p className="text-lg text-gray-600">
-            Thank you, {data.fullName}. Your guest registration has been successfully submitted.
+            Thank you, {data.fullName}. Your guest registration{property && <> for {property.name}</>} has been
+            successfully submitted.
           </p>
         </div>
 
@@ -122,6 +143,116 @@ export default async function SuccessPage({ params }: SuccessPageProps) {
               </div>
             </div>
 
+            {/* The rest of the party registering themselves */}
+            {invites.length > 0 && (
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">Other Guests to Register</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Send each guest their own link, or let them scan its code. Each link works once, until check-in.
+                </p>
+
+                <ul className="divide-y divide-gray-100">
+                  {invites.map(invite => {
+                    const inviteUrl = absoluteUrl(partyInvitePath(submission, invite));
+                    return (
+                      <li key={invite.id} className="py-4 flex flex-col sm:flex-row gap-4">
+                        <div className="flex-1 min-w-0 text-sm">
+                          <div className="font-medium text-gray-900">{invite.fullName}</div>
+                          {invite.registrationId ? (
+                            <div className="text-green-700">Registered</div>
+                          ) : invitesOpen ? (
+                            <>
+                              <div className="mt-1 font-mono text-xs text-gray-600 break-all select-all">{inviteUrl}</div>
+                              <a
+                                href={`https://wa.me/?text=${encodeURIComponent(`Please register for our stay: ${inviteUrl}`)}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="mt-1 inline-block text-green-600 hover:underline"
+                              >
+                                Send on WhatsApp
+                              </a>
+                            </>
+                          ) : (
+                            <div className="text-amber-700">Not registered. Please ask your host for help.</div>
+                          )}
+                        </div>
+                        {!invite.registrationId && invitesOpen && (
+                          <QRCodeGenerator value={inviteUrl} size={96} title={`Registration link for ${invite.fullName}`} />
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            {/* Where and when - from the property the guest registered for */}
+            {property && (
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Stay</h2>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-700">Property:</span>
+                    <div className="text-gray-900">{property.name}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium text-gray-700">Address:</span>
+                    <div className="text-gray-900">{property.address}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium text-gray-700">Check-in from:</span>
+                    <div className="text-gray-900">{property.checkInFrom}</div>
+                  </div>
+                  <div>
+                    <span className="font-medium text-gray-700">Check-out by:</span>
+                    <div className="text-gray-900">{property.checkOutBy}</div>
+                  </div>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">Times are local to the property ({property.timezone}).</p>
+
+                {property.checkInInstructions && (
+                  <div className="mt-4 text-sm">
+                    <span className="font-medium text-gray-700">Check-in instructions:</span>
+                    <p className="mt-1 text-gray-900 whitespace-pre-line">{property.checkInInstructions}</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Documents on file - images are fetched on demand, not embedded in the record */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Documents Received</h2>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <figure className="text-center">
+                  <Image
+                    unoptimized
+                    width={320}
+                    height={320}
+                    src={`/api/images/${id}/selfie${linkQuery}`}
+                    alt="Selfie on file"
+                    className="mx-auto h-auto w-auto max-h-40 rounded-lg border border-gray-200 object-contain"
+                  />
+                  <figcaption className="mt-2 text-xs text-gray-500">Selfie</figcaption>
+                </figure>
+                <figure className="text-center">
+                  <Image
+                    unoptimized
+                    width={320}
+                    height={320}
+                    src={`/api/images/${id}/signature${linkQuery}`}
+                    alt="Signature on file"
+                    className="mx-auto h-auto w-auto max-h-40 rounded-lg border border-gray-200 bg-white object-contain"
+                  />
+                  <figcaption className="mt-2 text-xs text-gray-500">Signature</figcaption>
+                </figure>
+              </div>
+              <p className="mt-4 text-xs text-gray-500">
+                Your ID/passport image is stored securely and only included in your registration PDF.
+              </p>
+            </div>
+
             {/* Important Notice */}
             <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
               <div className="flex items-start">
@@ -147,7 +278,10 @@ export default async function SuccessPage({ params }: SuccessPageProps) {
                     </li>
                     <li className="flex items-start">
                       <span className="w-1.5 h-1.5 bg-blue-600 rounded-full mt-2 mr-3 flex-shrink-0"></span>
-                      <span>If you need to make changes, please contact us directly</span>
+                      <span>
+                        To see, correct or erase your details later, use the{" "}
+                        <Link href="/portal" className="text-blue-600 hover:underline">guest portal</Link>
+                      </span>
                     </li>
                   </ul>
                 </div>
@@ -175,7 +309,11 @@ export default async function SuccessPage({ params }: SuccessPageProps) {
                   </div>
                   <div>
                     <h4 className="font-medium text-gray-900">Arrive at Your Check-in Time</h4>
-                    <p className="text-sm text-gray-600">Please arrive promptly at {checkInDate.format("h:mm A")} on {checkInDate.format("MMMM D, YYYY")}</p>
+                    <p className="text-sm text-gray-600">
+                      {property
+                        ? `Check-in opens at ${property.checkInFrom} on ${checkInDate.format("MMMM D, YYYY")}`
+                        : `Please arrive promptly at ${checkInDate.format("h:mm A")} on ${checkInDate.format("MMMM D, YYYY")}`}
+                    </p>
                   </div>
                 </div>
                 
@@ -226,13 +364,13 @@ export default async function SuccessPage({ params }: SuccessPageProps) {
               <div className="text-center">
                 <div className="inline-block bg-white p-4 rounded-lg border-2 border-gray-200">
                   <QRCodeGenerator 
-                    value={currentUrl} 
+                    value={qrUrl}
                     size={120}
-                    title="Scan to download PDF"
+                    title="Scan at check-in"
                   />
                 </div>
                 <p className="text-xs text-gray-500 mt-2">
-                  Scan with your phone to download the PDF
+                  Show this code to your host when you arrive so they can check you in
                 </p>
               </div>
             </div>
@@ -241,34 +379,40 @@ export default async function SuccessPage({ params }: SuccessPageProps) {
             <div className="bg-white rounded-xl shadow-lg p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Need Help?</h3>
               
-              <div className="space-y-3 text-sm">
-                <div>
-                  <span className="font-medium text-gray-700">Email:</span>
-                  <div className="text-blue-600">
-                    <a href="mailto:guest@yourhost.com" className="hover:underline">
-                      guest@yourhost.com
-                    </a>
+              {property ? (
+                <div className="space-y-3 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-700">Email:</span>
+                    <div className="text-blue-600">
+                      <a href={`mailto:${property.contactEmail}`} className="hover:underline">
+                        {property.contactEmail}
+                      </a>
+                    </div>
                   </div>
-                </div>
-                
-                <div>
-                  <span className="font-medium text-gray-700">Phone:</span>
-                  <div className="text-blue-600">
-                    <a href="tel:+27123456789" className="hover:underline">
-                      +27 12 345 6789
-                    </a>
+                  
+                  <div>
+                    <span className="font-medium text-gray-700">Phone:</span>
+                    <div className="text-blue-600">
+                      <a href={`tel:${property.contactPhone.replace(/[^\d+]/g, "")}`} className="hover:underline">
+                        {property.contactPhone}
+                      </a>
+                    </div>
                   </div>
-                </div>
-                
-                <div>
-                  <span className="font-medium text-gray-700">WhatsApp:</span>
-                  <div className="text-green-600">
-                    <a href="https://wa.me/27123456789" target="_blank" rel="noreferrer" className="hover:underline">
-                      Chat on WhatsApp
-                    </a>
+                  
+                  <div>
+                    <span className="font-medium text-gray-700">WhatsApp:</span>
+                    <div className="text-green-600">
+                      <a href={`https://wa.me/${whatsappNumber(property.contactPhone)}`} target="_blank" rel="noreferrer" className="hover:underline">
+                        Chat on WhatsApp
+                      </a>
+                    </div>
                   </div>
                 </div>
-              </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Please contact your host using the details in your booking confirmation.
+                </p>
+              )}
             </div>
 
             {/* Navigation */}
@@ -60,24 +60,13 @@ export default function NotFound() {
         <div className="mt-12 bg-white rounded-xl shadow-lg p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Need Help?</h3>
           <p className="text-gray-600 mb-4">
-            If you believe this is an error, please contact us with your registration details.
+            If you believe this is an error, please contact your host using the details in your booking confirmation.
+          </p>
+          <p className="text-sm text-gray-600">
+            You can also find your registration on the{" "}
+            <Link href="/portal" className="text-blue-600 hover:underline">guest portal</Link>{" "}
+            using the email address and ID number you registered with.
           </p>
-          
-          <div className="space-y-2 text-sm">
-            <div>
-              <span className="font-medium text-gray-700">Email:</span>
-              <a href="mailto:guest@yourhost.com" className="ml-2 text-blue-600 hover:underline">
-                guest@yourhost.com
-              </a>
-            </div>
-            
-            <div>
-              <span className="font-medium text-gray-700">Phone:</span>
-              <a href="tel:+27123456789" className="ml-2 text-blue-600 hover:underline">
-                +27 12 345 6789
-              </a>
-            </div>
-          </div>
         </div>
       </div>
     </main>
@@ -0,0 +1,92 @@
+// components/CustomFieldsSection.tsx
+"use client";
+import { CUSTOM_FILE_TYPES, type CustomAnswersInput, type CustomField } from "@/lib/custom-fields";
+
+interface CustomFieldsSectionProps {
+  fields: CustomField[];
+  values: CustomAnswersInput;
+  errors: Record<string, string>;
+  onChange: (key: string, value: string | boolean | undefined) => void;
+}
+
+const inputClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    error ? "border-red-500" : "border-gray-300"
+  }`;
+
+// The property's own questions, rendered from its field definitions
+export default function CustomFieldsSection({ fields, values, errors, onChange }: CustomFieldsSectionProps) {
+  if (fields.length === 0) return null;
+
+  const onFile = (key: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      onChange(key, undefined);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => onChange(key, reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Additional Information</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {fields.map(field => {
+          const error = errors[`custom.${field.key}`];
+          const value = values[field.key];
+          const label = `${field.label}${field.required ? " *" : ""}`;
+
+          if (field.type === "checkbox") {
+            return (
+              <div key={field.key} className={`md:col-span-2 p-4 rounded-md border ${error ? "border-red-500 bg-red-50" : "border-gray-200"}`}>
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    checked={value === true}
+                    onChange={e => onChange(field.key, e.target.checked)}
+                  />
+                  <span className="text-sm text-gray-700">{label}</span>
+                </label>
+                {field.help && <p className="mt-1 text-xs text-gray-500">{field.help}</p>}
+                {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+              </div>
+            );
+          }
+
+          return (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+              {field.type === "select" ? (
+                <select
+                  className={inputClass(error)}
+                  value={typeof value === "string" ? value : ""}
+                  onChange={e => onChange(field.key, e.target.value)}
+                >
+                  <option value="">Choose...</option>
+                  {field.options?.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : field.type === "file" ? (
+                <input type="file" accept={CUSTOM_FILE_TYPES.join(",")} className="text-sm" onChange={onFile(field.key)} />
+              ) : (
+                <input
+                  type={field.type === "date" ? "date" : "text"}
+                  className={inputClass(error)}
+                  value={typeof value === "string" ? value : ""}
+                  onChange={e => onChange(field.key, e.target.value)}
+                />
+              )}
+              {field.help && <p className="mt-1 text-xs text-gray-500">{field.help}</p>}
+              {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
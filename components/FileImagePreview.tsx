@@ -1,6 +1,7 @@
 // components/FileImagePreview.tsx
 "use client";
 import { useState } from "react";
+import { IMAGE_UPLOAD_TYPES } from "@/lib/uploads";
 
 
 type Props = {
@@ -30,7 +31,7 @@ export default function FileImagePreview({ label, onEncoded, capture }: Props) {
     return (
         <div className="stack">
             <label>{label}</label>
-            <input type="file" accept="image/*" capture={capture} onChange={onFile} />
+            <input type="file" accept={IMAGE_UPLOAD_TYPES.join(",")} capture={capture} onChange={onFile} />
             {preview && <img src={preview} alt="preview" style={{ maxWidth: "100%", borderRadius: 8, border: "1px solid #eee" }} />}
         </div>
     );
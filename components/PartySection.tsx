@@ -0,0 +1,142 @@
+// components/PartySection.tsx
+"use client";
+import FileImagePreview from "@/components/FileImagePreview";
+import type { CompanionInput } from "@/components/RegistrationForm";
+import { ADULT_AGE, GUARDIAN_RELATIONSHIPS, GUARDIAN_RELATIONSHIP_LABELS } from "@/lib/registration";
+
+interface PartySectionProps {
+  /** One entry per guest besides the one registering. */
+  companions: CompanionInput[];
+  /** Which of them are children at check-in: registered under the guest's consent, without an ID photo. */
+  minors: boolean[];
+  errors: Record<string, string>;
+  onChange: <K extends keyof CompanionInput>(index: number, key: K, value: CompanionInput[K]) => void;
+  onTouch: (fieldName: string) => void;
+}
+
+const inputClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    error ? "border-red-500" : "border-gray-300"
+  }`;
+
+// The details of everyone else in the party, which the register needs per person
+export default function PartySection({ companions, minors, errors, onChange, onTouch }: PartySectionProps) {
+  if (companions.length === 0) return null;
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Other Guests</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        The accommodation register lists everyone staying, so please add each of the other guests. If you don&apos;t
+        have an adult&apos;s ID to hand, they can register themselves: you&apos;ll get a link to send them once you
+        submit. Children are registered by you, as their parent or guardian.
+      </p>
+
+      <div className="space-y-6">
+        {companions.map((companion, index) => {
+          const error = (field: keyof CompanionInput) => errors[`companions.${index}.${field}`];
+          const text = (field: "fullName" | "idOrPassport" | "nationality", label: string, placeholder: string) => (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label} *</label>
+              <input
+                type="text"
+                className={inputClass(error(field))}
+                value={companion[field] || ""}
+                onChange={e => onChange(index, field, field === "idOrPassport" ? e.target.value.toUpperCase() : e.target.value)}
+                onBlur={() => onTouch(`companions.${index}.${field}`)}
+                placeholder={placeholder}
+              />
+              {error(field) && <p className="mt-1 text-sm text-red-600">{error(field)}</p>}
+            </div>
+          );
+
+          return (
+            <div key={index} className="p-4 rounded-md border border-gray-200 space-y-4">
+              <h3 className="font-medium text-gray-900">
+                Guest {index + 2}
+                {minors[index] && <span className="ml-2 text-xs font-normal text-blue-700">Under {ADULT_AGE}</span>}
+              </h3>
+              <label className="flex items-center space-x-3 cursor-pointer text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  checked={companion.selfRegister === true}
+                  onChange={e => onChange(index, "selfRegister", e.target.checked)}
+                />
+                <span>They&apos;re {ADULT_AGE} or over and will register themselves with their own link</span>
+              </label>
+              {companion.selfRegister ? (
+                <div className="md:w-1/2">{text("fullName", "Full Name", "Their full legal name")}</div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {text("fullName", "Full Name", "Their full legal name")}
+                    {text("idOrPassport", "ID/Passport Number", "e.g., 1234567890123 or A12345678")}
+                    {text("nationality", "Nationality", "e.g., South African, British, German")}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Date of Birth *</label>
+                      <input
+                        type="date"
+                        className={inputClass(error("dateOfBirth"))}
+                        value={companion.dateOfBirth || ""}
+                        onChange={e => onChange(index, "dateOfBirth", e.target.value)}
+                        onBlur={() => onTouch(`companions.${index}.dateOfBirth`)}
+                      />
+                      {error("dateOfBirth") && <p className="mt-1 text-sm text-red-600">{error("dateOfBirth")}</p>}
+                    </div>
+                  </div>
+                  {minors[index] && (
+                    <div className="space-y-4">
+                      <div className="md:w-1/2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Your relationship to them *</label>
+                        <select
+                          className={inputClass(error("guardianRelationship"))}
+                          value={companion.guardianRelationship ?? ""}
+                          onChange={e => onChange(index, "guardianRelationship", (e.target.value || undefined) as CompanionInput["guardianRelationship"])}
+                          onBlur={() => onTouch(`companions.${index}.guardianRelationship`)}
+                        >
+                          <option value="">Choose...</option>
+                          {GUARDIAN_RELATIONSHIPS.map(relationship => (
+                            <option key={relationship} value={relationship}>{GUARDIAN_RELATIONSHIP_LABELS[relationship]}</option>
+                          ))}
+                        </select>
+                        {error("guardianRelationship") && <p className="mt-1 text-sm text-red-600">{error("guardianRelationship")}</p>}
+                      </div>
+                      <div className={`p-3 rounded-md border ${error("guardianConsent") ? "border-red-500 bg-red-50" : "border-gray-200"}`}>
+                        <label className="flex items-start space-x-3 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                            checked={companion.guardianConsent === true}
+                            onChange={e => {
+                              onChange(index, "guardianConsent", e.target.checked ? true : undefined);
+                              onTouch(`companions.${index}.guardianConsent`);
+                            }}
+                          />
+                          <span className="text-sm text-gray-700">
+                            I am this child&apos;s parent or guardian, or act with their authority, and consent to their
+                            personal information being processed for the accommodation register. My signature below
+                            confirms this consent. *
+                          </span>
+                        </label>
+                        {error("guardianConsent") && <p className="mt-2 text-sm text-red-600">{error("guardianConsent")}</p>}
+                      </div>
+                    </div>
+                  )}
+                  <div>
+                    <FileImagePreview
+                      label={minors[index] ? "Upload their ID/Passport (optional for children)" : "Upload their ID/Passport (front page) *"}
+                      onEncoded={(s) => onChange(index, "idImage", s)}
+                      capture="environment"
+                    />
+                    {error("idImage") && <p className="mt-1 text-sm text-red-600">{error("idImage")}</p>}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,35 @@
+// components/PolicyConsent.tsx
+"use client";
+import type { PolicyText } from "@/lib/policies";
+
+interface PolicyConsentProps {
+  policy: PolicyText;
+  checked: boolean;
+  error?: string;
+  onChange: (checked: boolean) => void;
+  onBlur?: () => void;
+}
+
+// A policy's full text with its acceptance checkbox. The guest accepts this
+// exact version, which is recorded with the registration.
+export default function PolicyConsent({ policy, checked, error, onChange, onBlur }: PolicyConsentProps) {
+  return (
+    <div className={`p-4 rounded-md border ${error ? "border-red-500 bg-red-50" : "border-gray-200"}`}>
+      <h3 className="text-sm font-semibold text-gray-900">{policy.title}</h3>
+      <div className="mt-2 max-h-40 overflow-y-auto text-sm text-gray-700 whitespace-pre-line">{policy.body}</div>
+      <label className="mt-3 flex items-start space-x-3 cursor-pointer">
+        <input
+          type="checkbox"
+          className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          checked={checked}
+          onChange={e => onChange(e.target.checked)}
+          onBlur={onBlur}
+        />
+        <span className="text-sm text-gray-700">
+          I have read and accept the {policy.title} <span className="text-gray-500">(version {policy.version})</span> *
+        </span>
+      </label>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
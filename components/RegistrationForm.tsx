@@ -0,0 +1,893 @@
+// components/RegistrationForm.tsx
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { z } from "zod";
+import SignatureCanvas from "@/components/SignatureCanvas";
+import FileImagePreview from "@/components/FileImagePreview";
+import CustomFieldsSection from "@/components/CustomFieldsSection";
+import PartySection from "@/components/PartySection";
+import PolicyConsent from "@/components/PolicyConsent";
+import { customAnswersSchema, hasAnswer, type CustomAnswersInput } from "@/lib/custom-fields";
+import type { Property } from "@/lib/properties";
+import type { PolicyKind, PolicyText } from "@/lib/policies";
+import { GUARDIAN_RELATIONSHIPS, isMinor, partyAgeIssues } from "@/lib/registration";
+
+// The personal details every guest in the party gives
+const PersonFields = {
+  fullName: z.string()
+    .min(2, "Full name must be at least 2 characters")
+    .max(100, "Full name must be less than 100 characters")
+    .regex(/^[a-zA-Z\s\-'\.]+$/, "Full name contains invalid characters"),
+  
+  idOrPassport: z.string()
+    .min(4, "ID/Passport must be at least 4 characters")
+    .max(20, "ID/Passport must be less than 20 characters")
+    .regex(/^[a-zA-Z0-9\-]+$/, "ID/Passport contains invalid characters"),
+  
+  nationality: z.string()
+    .min(2, "Nationality must be at least 2 characters")
+    .max(50, "Nationality must be less than 50 characters")
+    .regex(/^[a-zA-Z\s]+$/, "Nationality contains invalid characters"),
+  
+  dateOfBirth: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth is required")
+    .refine((date) => {
+      const birth = new Date(`${date}T00:00:00Z`);
+      if (Number.isNaN(birth.getTime()) || !birth.toISOString().startsWith(date)) return false;
+      const age = (Date.now() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+      return age >= 0 && age <= 120;
+    }, "Invalid date of birth"),
+};
+
+// Each other guest in the party: adults with a photo of their ID/passport,
+// children with their guardian's relationship and consent (partyAgeIssues)
+const CompanionFormSchema = z.object({
+  ...PersonFields,
+  idImage: z.string().min(10, "ID/Passport image is required").optional(),
+  guardianRelationship: z.enum(GUARDIAN_RELATIONSHIPS).optional(),
+  guardianConsent: z.literal(true).optional(),
+});
+
+// Or just their name, when they will register themselves through their own link
+const InvitedGuestFormSchema = z.object({
+  fullName: PersonFields.fullName,
+  selfRegister: z.literal(true),
+});
+
+const PartyMemberSchema = z.discriminatedUnion("selfRegister", [
+  CompanionFormSchema.extend({ selfRegister: z.literal(false) }),
+  InvitedGuestFormSchema,
+]);
+
+export type CompanionInput = Partial<z.infer<typeof CompanionFormSchema>> & { selfRegister?: boolean };
+
+// Enhanced form schema matching server-side validation
+const FormSchema = z.object({
+  // Personal Information
+  ...PersonFields,
+  
+  residenceStatus: z.string()
+    .min(2, "Residence status must be at least 2 characters")
+    .max(100, "Residence status must be less than 100 characters"),
+  
+  homeAddress: z.string()
+    .min(5, "Home address must be at least 5 characters")
+    .max(300, "Home address must be less than 300 characters"),
+  
+  // Contact Information
+  phone: z.string()
+    .min(6, "Phone number must be at least 6 characters")
+    .max(20, "Phone number must be less than 20 characters")
+    .regex(/^[\+]?[\d\s\-\(\)]+$/, "Invalid phone number format"),
+  
+  email: z.string()
+    .email("Invalid email address")
+    .max(100, "Email must be less than 100 characters"),
+  
+  // Stay Details
+  checkIn: z.string()
+    .min(4, "Check-in date is required")
+    .refine((date) => {
+      const checkInDate = new Date(date);
+      const now = new Date();
+      return checkInDate > now;
+    }, "Check-in date must be in the future"),
+  
+  checkOut: z.string()
+    .min(4, "Check-out date is required"),
+  
+  guests: z.number()
+    .int("Number of guests must be a whole number")
+    .min(1, "At least 1 guest is required")
+    .max(20, "Maximum 20 guests allowed"),
+  
+  // Documents
+  selfie: z.string().min(10, "Selfie is required"),
+  idImage: z.string().min(10, "ID/Passport image is required"),
+  signature: z.string().min(10, "Digital signature is required"),
+  
+  // Consents
+  popiaConsent: z.literal(true, {
+    errorMap: () => ({ message: "POPIA consent is required" })
+  }),
+  nonRefundAck: z.literal(true, {
+    errorMap: () => ({ message: "Non-refund policy acknowledgment is required" })
+  }),
+  
+  // The rest of the party
+  companions: z.array(PartyMemberSchema),
+})
+.refine((data) => data.companions.length === data.guests - 1, {
+  message: "Please add the details of every other guest in your party",
+  path: ["companions"]
+})
+.superRefine((data, ctx) => partyAgeIssues(data).forEach(issue => ctx.addIssue(issue)))
+.refine((data) => {
+  const checkIn = new Date(data.checkIn);
+  const checkOut = new Date(data.checkOut);
+  return checkOut > checkIn;
+}, {
+  message: "Check-out date must be after check-in date",
+  path: ["checkOut"]
+})
+.refine((data) => {
+  const checkIn = new Date(data.checkIn);
+  const checkOut = new Date(data.checkOut);
+  const diffTime = Math.abs(checkOut.getTime() - checkIn.getTime());
+  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  return diffDays <= 365;
+}, {
+  message: "Stay duration cannot exceed 365 days",
+  path: ["checkOut"]
+});
+
+type FormData = z.infer<typeof FormSchema>;
+
+interface ValidationError {
+  field: string;
+  message: string;
+}
+
+interface SubmissionResponse {
+  success?: boolean;
+  id?: string;
+  successUrl?: string;
+  message?: string;
+  error?: string;
+  details?: ValidationError[];
+}
+
+// Errors only checked on submit: the property's custom fields (`custom.<key>`)
+// and policies without a registration field (`policies.<kind>`)
+function submitOnlyErrors(errors: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(errors).filter(([field]) => field.startsWith("custom.") || field.startsWith("policies."))
+  );
+}
+
+// Policies whose acceptance is also a field of the registration itself
+const CONSENT_FIELDS: Partial<Record<PolicyKind, "popiaConsent" | "nonRefundAck">> = {
+  privacy: "popiaConsent",
+  nonRefund: "nonRefundAck",
+};
+
+// One entry per other guest; entries beyond the party are kept in case it grows again
+const partyOf = (companions: CompanionInput[], guests = 1): CompanionInput[] =>
+  Array.from({ length: Math.max(guests - 1, 0) }, (_, i) => ({ selfRegister: false, ...companions[i] }));
+
+// Each companion's details count towards progress
+const COMPANION_FIELDS = ["fullName", "idOrPassport", "nationality", "dateOfBirth", "idImage"] as const;
+const MINOR_FIELDS = ["fullName", "idOrPassport", "nationality", "dateOfBirth", "guardianRelationship", "guardianConsent"] as const;
+
+// A child at check-in, once both dates are filled in
+const isChild = (companion: CompanionInput, checkIn?: string) =>
+  !!checkIn && /^\d{4}-\d{2}-\d{2}$/.test(companion.dateOfBirth ?? "") && isMinor(companion.dateOfBirth!, checkIn);
+
+/** A co-traveller's link from the lead guest's registration, and the token that proves it. */
+export interface CoTravellerInvite {
+  lead: string;
+  guest: string;
+  token: string;
+  /** As the lead guest gave it. */
+  fullName: string;
+  leadName: string;
+  checkIn: string;
+  checkOut: string;
+}
+
+/** The booking an invitation link is for, and the token that proves it. */
+export interface BookingInvite {
+  id: string;
+  token: string;
+  confirmationCode?: string;
+  checkIn: string;
+  checkOut: string;
+  /** Unknown for bookings imported from a calendar feed; the guest enters it. */
+  guests?: number;
+}
+
+interface RegistrationFormProps {
+  /** The property from the registration URL; absent on a single-listing setup without properties. */
+  property?: Pick<Property, "slug" | "name" | "checkInFrom" | "checkOutBy" | "customFields">;
+  /** The current version of each policy the guest must accept. */
+  policies: PolicyText[];
+  /** Set when opened from a booking invitation: its stay details are filled in and locked. */
+  booking?: BookingInvite;
+  /** Set when a co-traveller opens their link: they give their own details only. */
+  coTraveller?: CoTravellerInvite;
+}
+
+export default function RegistrationForm({ property, policies, booking, coTraveller }: RegistrationFormProps) {
+  const stayDefaults: Partial<FormData> = coTraveller
+    ? { fullName: coTraveller.fullName, checkIn: coTraveller.checkIn, checkOut: coTraveller.checkOut, guests: 1 }
+    : booking
+      ? { checkIn: booking.checkIn, checkOut: booking.checkOut, guests: booking.guests ?? 1 }
+      : { guests: 1 };
+  const [formData, setFormData] = useState<Partial<FormData>>(stayDefaults);
+  
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState("");
+  const [fieldTouched, setFieldTouched] = useState<Record<string, boolean>>({});
+  const [custom, setCustom] = useState<CustomAnswersInput>({});
+  const [reservationCode, setReservationCode] = useState("");
+  const [policyAccepted, setPolicyAcceptedState] = useState<Partial<Record<PolicyKind, boolean>>>({});
+  const [companions, setCompanions] = useState<CompanionInput[]>([]);
+  // The lead guest answers the property's own questions for the party
+  const customFields = coTraveller ? [] : property?.customFields ?? [];
+  const party = partyOf(companions, formData.guests);
+
+  // Form completion progress
+  const requiredFields = [
+    'fullName', 'idOrPassport', 'nationality', 'dateOfBirth', 'residenceStatus', 'homeAddress',
+    'phone', 'email', 'checkIn', 'checkOut', 'guests', 'selfie', 'idImage', 
+    'signature', 'popiaConsent', 'nonRefundAck'
+  ];
+  
+  const completedFields = requiredFields.filter(field => {
+    const value = formData[field as keyof FormData];
+    return value !== undefined && value !== '' && value !== false;
+  });
+  
+  const isAccepted = (policy: PolicyText) => {
+    const field = CONSENT_FIELDS[policy.kind];
+    return (field ? formData[field] : policyAccepted[policy.kind]) === true;
+  };
+  
+  // The property's required questions, any further policies and the rest of
+  // the party count towards progress too
+  const requiredCustom = customFields.filter(field => field.required);
+  const completedCustom = requiredCustom.filter(field => hasAnswer(custom[field.key]));
+  const extraPolicies = policies.filter(policy => !CONSENT_FIELDS[policy.kind]);
+  const acceptedExtra = extraPolicies.filter(isAccepted);
+  // Guests registering themselves only need a name here
+  const minors = party.map(companion => !companion.selfRegister && isChild(companion, formData.checkIn));
+  const companionFields = party.map((companion, i) =>
+    companion.selfRegister ? (["fullName"] as const) : minors[i] ? MINOR_FIELDS : COMPANION_FIELDS);
+  const completedCompanion = party.flatMap((companion, i) => companionFields[i].filter(field => companion[field]));
+  
+  const progressPercentage = Math.round(
+    ((completedFields.length + completedCustom.length + acceptedExtra.length + completedCompanion.length) /
+      (requiredFields.length + requiredCustom.length + extraPolicies.length + companionFields.flat().length)) * 100
+  );
+
+  // Update form field
+  const setField = useCallback(<K extends keyof FormData>(key: K, value: FormData[K]) => {
+    setFormData(prev => ({ ...prev, [key]: value }));
+    
+    // Clear field error when user starts typing
+    if (errors[key]) {
+      setErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[key];
+        return newErrors;
+      });
+    }
+  }, [errors]);
+
+  // Update a custom field answer
+  const setCustomField = useCallback((key: string, value: string | boolean | undefined) => {
+    setCustom(prev => ({ ...prev, [key]: value }));
+    setErrors(prev => {
+      const newErrors = { ...prev };
+      delete newErrors[`custom.${key}`];
+      return newErrors;
+    });
+  }, []);
+
+  // Update one of the other guests' details
+  const setCompanionField = useCallback(<K extends keyof CompanionInput>(index: number, key: K, value: CompanionInput[K]) => {
+    setCompanions(prev => {
+      const next = [...prev];
+      next[index] = { ...next[index], [key]: value };
+      return next;
+    });
+    setErrors(prev => {
+      const newErrors = { ...prev };
+      delete newErrors[`companions.${index}.${key}`];
+      return newErrors;
+    });
+  }, []);
+
+  // Accept a policy that has no registration field of its own (e.g. house rules)
+  const setPolicyAccepted = useCallback((kind: PolicyKind, accepted: boolean) => {
+    setPolicyAcceptedState(prev => ({ ...prev, [kind]: accepted }));
+    setErrors(prev => {
+      const newErrors = { ...prev };
+      delete newErrors[`policies.${kind}`];
+      return newErrors;
+    });
+  }, []);
+
+  // Mark field as touched
+  const touchField = useCallback((fieldName: string) => {
+    setFieldTouched(prev => ({ ...prev, [fieldName]: true }));
+  }, []);
+
+  // Real-time validation for touched fields
+  useEffect(() => {
+    const validateField = async () => {
+      const touchedFieldNames = Object.keys(fieldTouched).filter(field => fieldTouched[field]);
+      if (touchedFieldNames.length === 0) return;
+
+      try {
+        FormSchema.parse({ ...formData, companions: partyOf(companions, formData.guests) });
+        // If validation passes, clear all errors (except those checked on submit)
+        setErrors(prev => submitOnlyErrors(prev));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          const newErrors: Record<string, string> = {};
+          
+          error.errors.forEach(err => {
+            const fieldName = err.path.join('.');
+            if (fieldTouched[fieldName]) {
+              newErrors[fieldName] = err.message;
+            }
+          });
+          
+          setErrors(prev => ({ ...submitOnlyErrors(prev), ...newErrors }));
+        }
+      }
+    };
+
+    const timeoutId = setTimeout(validateField, 300); // Debounce validation
+    return () => clearTimeout(timeoutId);
+  }, [formData, companions, fieldTouched]);
+
+  // Submit form
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setSubmitError("");
+    
+    try {
+      // Validate entire form, including the property's own questions, so
+      // every error shows at once
+      const base = FormSchema.safeParse({ ...formData, companions: party });
+      const extra = z.object({ custom: customAnswersSchema(customFields) }).safeParse({ custom });
+      const unaccepted: z.ZodIssue[] = extraPolicies.filter(policy => !isAccepted(policy)).map(policy => ({
+        code: z.ZodIssueCode.custom,
+        path: ["policies", policy.kind],
+        message: `Please accept the ${policy.title}`,
+      }));
+      if (!base.success || !extra.success || unaccepted.length > 0) {
+        throw new z.ZodError([
+          ...(base.success ? [] : base.error.errors),
+          ...(extra.success ? [] : extra.error.errors),
+          ...unaccepted,
+        ]);
+      }
+      const validatedData = base.data;
+      
+      // Guests registering themselves are sent as invitations. The server
+      // numbers the two lists separately, so keep each entry's place in the party.
+      const entered = validatedData.companions.flatMap((member, i) => (member.selfRegister ? [] : [i]));
+      const invited = validatedData.companions.flatMap((member, i) => (member.selfRegister ? [i] : []));
+      const partyField = (field: string) =>
+        field.replace(/^(companions|invitedGuests)\.(\d+)/, (_, list: string, n: string) =>
+          `companions.${(list === "companions" ? entered : invited)[Number(n)]}`);
+      
+      const response = await fetch("/api/submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...validatedData,
+          companions: entered.map(i => validatedData.companions[i]),
+          invitedGuests: invited.map(i => ({ fullName: validatedData.companions[i].fullName })),
+          custom,
+          propertyId: property?.slug,
+          ...(coTraveller
+            ? { party: coTraveller.lead, partyGuest: coTraveller.guest, partyToken: coTraveller.token }
+            : booking ? { booking: booking.id, inviteToken: booking.token } : { reservationCode }),
+          // The exact versions accepted, so the server can record (and check) them
+          acceptedPolicies: policies.filter(isAccepted).map(({ kind, version, sha256 }) => ({ kind, version, sha256 })),
+        })
+      });
+      
+      const result: SubmissionResponse = await response.json();
+      
+      if (!response.ok) {
+        if (result.details) {
+          // Handle field-specific validation errors
+          const fieldErrors: Record<string, string> = {};
+          result.details.forEach(error => {
+            fieldErrors[partyField(error.field)] = error.message;
+          });
+          setErrors(fieldErrors);
+        }
+        
+        throw new Error(result.error || result.message || "Submission failed");
+      }
+      
+      // Success - redirect to success page
+      if (result.successUrl) {
+        window.location.href = result.successUrl;
+      } else {
+        throw new Error("No submission ID received");
+      }
+      
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        // Handle client-side validation errors
+        const fieldErrors: Record<string, string> = {};
+        error.errors.forEach(err => {
+          const fieldName = err.path.join('.');
+          fieldErrors[fieldName] = err.message;
+        });
+        setErrors(fieldErrors);
+        setSubmitError("Please fix the errors above and try again");
+      } else {
+        // Handle other errors
+        const errorMessage = error instanceof Error ? error.message : "Submission failed";
+        setSubmitError(errorMessage);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Clear form
+  const clearForm = () => {
+    setFormData(stayDefaults);
+    setCustom({});
+    setReservationCode("");
+    setPolicyAcceptedState({});
+    setCompanions([]);
+    setErrors({});
+    setFieldTouched({});
+    setSubmitError("");
+  };
+
+  return (
+    <main className="max-w-4xl mx-auto p-6">
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Guest Registration</h1>
+          {property && (
+            <p className="text-lg text-gray-800 mb-1">
+              {property.name} - check-in from {property.checkInFrom}, check-out by {property.checkOutBy}
+            </p>
+          )}
+          {coTraveller && (
+            <p className="text-gray-800 mb-1">
+              You&apos;re staying with {coTraveller.leadName}, {coTraveller.checkIn.slice(0, 10)} to {coTraveller.checkOut.slice(0, 10)}.
+              They have registered the stay; please add your own details.
+            </p>
+          )}
+          <p className="text-gray-600">
+            Complete your check-in online. All fields marked with * are required.
+          </p>
+          
+          {/* Progress Bar */}
+          <div className="mt-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>Progress</span>
+              <span>{progressPercentage}% complete</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div 
+                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${progressPercentage}%` }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <form className="space-y-6">
+          {/* Personal Information */}
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Personal Information</h2>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Full Name *
+                </label>
+                <input
+                  type="text"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.fullName ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  value={formData.fullName || ''}
+                  onChange={e => setField("fullName", e.target.value)}
+                  onBlur={() => touchField("fullName")}
+                  placeholder="Enter your full legal name"
+                />
+                {errors.fullName && (
+                  <p className="mt-1 text-sm text-red-600">{errors.fullName}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  ID/Passport Number *
+                </label>
+                <input
+                  type="text"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.idOrPassport ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  value={formData.idOrPassport || ''}
+                  onChange={e => setField("idOrPassport", e.target.value.toUpperCase())}
+                  onBlur={() => touchField("idOrPassport")}
+                  placeholder="e.g., 1234567890123 or A12345678"
+                />
+                {errors.idOrPassport && (
+                  <p className="mt-1 text-sm text-red-600">{errors.idOrPassport}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Nationality *
+                </label>
+                <input
+                  type="text"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.nationality ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  value={formData.nationality || ''}
+                  onChange={e => setField("nationality", e.target.value)}
+                  onBlur={() => touchField("nationality")}
+                  placeholder="e.g., South African, British, German"
+                />
+                {errors.nationality && (
+                  <p className="mt-1 text-sm text-red-600">{errors.nationality}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Residence/Visa Status *
+                </label>
+                <input
+                  type="text"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.residenceStatus ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  value={formData.residenceStatus || ''}
+                  onChange={e => setField("residenceStatus", e.target.value)}
+                  onBlur={() => touchField("residenceStatus")}
+                  placeholder="Citizen / Tourist Visa / Work Permit"
+                />
+                {errors.residenceStatus && (
+                  <p className="mt-1 text-sm text-red-600">{errors.residenceStatus}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date of Birth *
+                </label>
+                <input
+                  type="date"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.dateOfBirth ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  value={formData.dateOfBirth || ''}
+                  onChange={e => setField("dateOfBirth", e.target.value)}
+                  onBlur={() => touchField("dateOfBirth")}
+                />
+                {errors.dateOfBirth && (
+                  <p className="mt-1 text-sm text-red-600">{errors.dateOfBirth}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Home Address *
+              </label>
+              <textarea
+                rows={3}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.homeAddress ? 'border-red-500' : 'border-gray-300'
+                }`}
+                value={formData.homeAddress || ''}
+                onChange={e => setField("homeAddress", e.target.value)}
+                onBlur={() => touchField("homeAddress")}
+                placeholder="Enter your complete home address including city and country"
+              />
+              {errors.homeAddress && (
+                <p className="mt-1 text-sm text-red-600">{errors.homeAddress}</p>
+              )}
+            </div>
+          </section>
+
+          {/* Contact Information */}
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Contact Information</h2>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Phone Number *
+                </label>
+                <input
+                  type="tel"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.phone ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  value={formData.phone || ''}
+                  onChange={e => setField("phone", e.target.value)}
+                  onBlur={() => touchField("phone")}
+                  placeholder="+27 12 345 6789"
+                />
+                {errors.phone && (
+                  <p className="mt-1 text-sm text-red-600">{errors.phone}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email Address *
+                </label>
+                <input
+                  type="email"
+                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                    errors.email ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  value={formData.email || ''}
+                  onChange={e => setField("email", e.target.value.toLowerCase())}
+                  onBlur={() => touchField("email")}
+                  placeholder="your.email@example.com"
+                />
+                {errors.email && (
+                  <p className="mt-1 text-sm text-red-600">{errors.email}</p>
+                )}
+              </div>
+            </div>
+          </section>
+
+          {/* Stay Details and the rest of the party; a co-traveller's stay is the lead guest's */}
+          {!coTraveller && (
+            <>
+              <section>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Accommodation Details</h2>
+                {booking && (
+                  <p className="text-sm text-gray-600 mb-4">
+                    From your booking{booking.confirmationCode && ` ${booking.confirmationCode}`}. Please contact your host
+                    if these details are wrong.
+                  </p>
+                )}
+            
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Check-in Date & Time *
+                    </label>
+                    <input
+                      type="datetime-local"
+                      className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        errors.checkIn ? 'border-red-500' : 'border-gray-300'
+                      } ${booking ? 'bg-gray-100 text-gray-600' : ''}`}
+                      value={formData.checkIn || ''}
+                      onChange={e => setField("checkIn", e.target.value)}
+                      onBlur={() => touchField("checkIn")}
+                      min={new Date().toISOString().slice(0, 16)}
+                      readOnly={!!booking}
+                    />
+                    {errors.checkIn && (
+                      <p className="mt-1 text-sm text-red-600">{errors.checkIn}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Check-out Date & Time *
+                    </label>
+                    <input
+                      type="datetime-local"
+                      className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        errors.checkOut ? 'border-red-500' : 'border-gray-300'
+                      } ${booking ? 'bg-gray-100 text-gray-600' : ''}`}
+                      value={formData.checkOut || ''}
+                      onChange={e => setField("checkOut", e.target.value)}
+                      onBlur={() => touchField("checkOut")}
+                      min={formData.checkIn || new Date().toISOString().slice(0, 16)}
+                      readOnly={!!booking}
+                    />
+                    {errors.checkOut && (
+                      <p className="mt-1 text-sm text-red-600">{errors.checkOut}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Number of Guests *
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="20"
+                      className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                        errors.guests ? 'border-red-500' : 'border-gray-300'
+                      } ${booking?.guests !== undefined ? 'bg-gray-100 text-gray-600' : ''}`}
+                      value={formData.guests || 1}
+                      onChange={e => setField("guests", parseInt(e.target.value) || 1)}
+                      onBlur={() => touchField("guests")}
+                      readOnly={booking?.guests !== undefined}
+                    />
+                    {errors.guests && (
+                      <p className="mt-1 text-sm text-red-600">{errors.guests}</p>
+                    )}
+                  </div>
+
+                  {property && !booking && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Booking Confirmation Code
+                      </label>
+                      <input
+                        type="text"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 uppercase"
+                        value={reservationCode}
+                        onChange={e => setReservationCode(e.target.value)}
+                        maxLength={30}
+                        placeholder="e.g. HMABC12345"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">Optional. From your booking confirmation.</p>
+                    </div>
+                  )}
+                </div>
+              </section>
+
+              <PartySection companions={party} minors={minors} errors={errors} onChange={setCompanionField} onTouch={touchField} />
+            </>
+          )}
+
+          <CustomFieldsSection fields={customFields} values={custom} errors={errors} onChange={setCustomField} />
+
+          {/* Document Uploads */}
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Required Documents</h2>
+            
+            <div className="space-y-4">
+              <div>
+                <FileImagePreview 
+                  label="Upload Selfie Photo *" 
+                  onEncoded={(s) => setField("selfie", s)} 
+                  capture="user"
+                  error={errors.selfie}
+                />
+              </div>
+
+              <div>
+                <FileImagePreview 
+                  label="Upload ID/Passport (front page) *" 
+                  onEncoded={(s) => setField("idImage", s)} 
+                  capture="environment"
+                  error={errors.idImage}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Digital Signature *
+                </label>
+                <SignatureCanvas 
+                  onChange={(sig) => setField("signature", sig)}
+                  error={errors.signature}
+                />
+                {errors.signature && (
+                  <p className="mt-1 text-sm text-red-600">{errors.signature}</p>
+                )}
+                {minors.some(Boolean) && (
+                  <p className="mt-1 text-xs text-gray-500">Your signature also gives your consent for the children in your party.</p>
+                )}
+              </div>
+            </div>
+          </section>
+
+          {/* Consents */}
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Consent & Acknowledgments</h2>
+            
+            <div className="space-y-4">
+              {policies.map(policy => {
+                const field = CONSENT_FIELDS[policy.kind];
+                return (
+                  <PolicyConsent
+                    key={policy.kind}
+                    policy={policy}
+                    checked={isAccepted(policy)}
+                    error={errors[field ?? `policies.${policy.kind}`]}
+                    onChange={checked => (field ? setField(field, checked) : setPolicyAccepted(policy.kind, checked))}
+                    onBlur={field ? () => touchField(field) : undefined}
+                  />
+                );
+              })}
+            </div>
+          </section>
+
+          {/* Error Display */}
+          {submitError && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+              <div className="flex">
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-red-800">Submission Error</h3>
+                  <div className="mt-2 text-sm text-red-700">
+                    {submitError}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Submit Buttons */}
+          <div className="flex flex-col sm:flex-row gap-4 pt-6">
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={isSubmitting || progressPercentage < 100}
+              className={`flex-1 px-6 py-3 rounded-md font-medium transition-colors ${
+                isSubmitting || progressPercentage < 100
+                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                  : 'bg-blue-600 text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500'
+              }`}
+            >
+              {isSubmitting ? (
+                <span className="flex items-center justify-center">
+                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-gray-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Submitting Registration...
+                </span>
+              ) : (
+                `Submit Registration (${progressPercentage}%)`
+              )}
+            </button>
+
+            <button
+              type="button"
+              onClick={clearForm}
+              className="px-6 py-3 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Clear Form
+            </button>
+
+            <button
+              type="button"
+              onClick={() => window.history.back()}
+              className="px-6 py-3 border border-gray-300 rounded-md font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+          </div>
+
+          {/* Legal Notice */}
+          <div className="mt-8 p-4 bg-gray-50 rounded-md">
+            <p className="text-xs text-gray-600">
+              <strong>Legal Notice:</strong> Your submission creates a digital entry in our guest register as required by the Immigration Act 13 of 2002. We retain records for the legally required period and secure them in compliance with POPIA. By submitting this form, you confirm that all information provided is accurate and complete.
+            </p>
+          </div>
+        </form>
+      </div>
+    </main>
+  );
+}
\ No newline at end of file
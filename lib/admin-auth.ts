@@ -0,0 +1,17 @@
+// lib/admin-auth.ts
+import { timingSafeEqual } from "crypto";
+
+// Machine-to-machine access for operational endpoints (health, replays,
+// cron jobs). Callers send `Authorization: Bearer <ADMIN_API_TOKEN>`.
+export function isAuthorizedAdmin(request: Request): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) return false;
+
+  const header = request.headers.get("authorization") || "";
+  const [scheme, token] = header.split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token) return false;
+
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
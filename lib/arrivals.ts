@@ -0,0 +1,85 @@
+// lib/arrivals.ts
+import dayjs from "dayjs";
+import { findByCheckInRange, findByCheckOutRange, kvSAdd } from "@/lib/kv";
+import { getSubmission } from "@/lib/submissions";
+import { DEFAULT_TIMEZONE, listProperties, zonedStayTime } from "@/lib/properties";
+import { recordAudit, type AuditContext } from "@/lib/audit";
+import type { SubmissionRecord } from "@/lib/records";
+
+// The host's side of check-in: today's expected arrivals and departures, and
+// confirming that a guest has physically arrived after comparing them with
+// their selfie and ID. The guest's success-page QR code opens the check-in
+// page for the record.
+
+export interface Arrival {
+  /** ISO time the guest was verified in person. */
+  at: string;
+  /** Audit actor of the staff member who verified them. */
+  by: string;
+}
+
+export interface DayBoard {
+  date: string;
+  arrivals: SubmissionRecord[];
+  departures: SubmissionRecord[];
+}
+
+// Members are JSON Arrivals; read back by getSubmission
+const arrivalsKey = (id: string) => `arrivals:${id}`;
+
+/** Staff page for confirming a guest's arrival; what the success-page QR encodes. */
+export function checkInPath(id: string): string {
+  return `/admin/checkin/${id}`;
+}
+
+async function load(ids: string[]): Promise<SubmissionRecord[]> {
+  const records = await Promise.all(ids.map(id => getSubmission(id)));
+  return records.filter((record): record is SubmissionRecord => record !== null);
+}
+
+/**
+ * What day it is now for the properties: in their time zone if they share
+ * one, otherwise the default. Not the server's clock, which is often UTC.
+ */
+export async function localToday(): Promise<string> {
+  const zones = new Set((await listProperties()).map(property => property.timezone));
+  const timeZone = zones.size === 1 ? [...zones][0] : DEFAULT_TIMEZONE;
+  return zonedStayTime(Date.now(), timeZone).slice(0, 10);
+}
+
+/**
+ * Registrations checking in and out on `date` (YYYY-MM-DD), earliest first.
+ * Stay times are local to the property, so the day is matched the same way
+ * they are indexed, not converted between zones.
+ */
+export async function dayBoard(date: string): Promise<DayBoard> {
+  const day = dayjs(`${date}T00:00`);
+  const from = day.startOf("day").valueOf();
+  const to = day.endOf("day").valueOf();
+
+  return {
+    date,
+    arrivals: await load(await findByCheckInRange(from, to)),
+    departures: await load(await findByCheckOutRange(from, to)),
+  };
+}
+
+/**
+ * Record that staff verified the guest in person. The first confirmation
+ * stands; later ones return it unchanged. Null if the record doesn't exist.
+ */
+export async function confirmArrival(id: string, audit: AuditContext): Promise<Arrival | null> {
+  const record = await getSubmission(id);
+  if (!record) {
+    await recordAudit(audit, "update", id, "not_found", "arrival");
+    return null;
+  }
+  if (record.arrival) return record.arrival;
+
+  // Added to a set beside the record rather than written into it. Staff
+  // confirming at the same moment both land, and the earliest is the one read.
+  const arrival: Arrival = { at: new Date().toISOString(), by: audit.actor };
+  await kvSAdd(arrivalsKey(id), JSON.stringify(arrival));
+  await recordAudit(audit, "update", id, "success", "arrival");
+  return (await getSubmission(id))?.arrival ?? arrival;
+}
@@ -0,0 +1,126 @@
+// lib/audit.ts
+import { kvGet, kvSet, kvZAdd, kvZRangeByScore } from "@/lib/kv";
+import { resolveClient } from "@/lib/client-ip";
+
+// Append-only access log for guest registrations, so POPIA access requests
+// ("who has processed my data?") can be answered per guest.
+//
+// Each event is written once under `audit:event:<id>` and listed in the
+// per-guest index `audit:guest:<recordId>` and the global `audit:all`, both
+// scored by time. A page listing many registrations writes one event naming
+// them all, so the global index grows by one entry per page view rather than
+// one per row. Nothing here updates or deletes events, and they outlive the
+// registration itself so deletions stay accounted for.
+
+export type AuditAction = "create" | "read" | "export" | "update" | "delete";
+export type AuditOutcome = "success" | "denied" | "not_found" | "error";
+
+export interface AuditContext {
+  /** Who acted: "guest", "anonymous" (link holder), "admin-api", "retention:<actor>", ... */
+  actor: string;
+  ip: string;
+  userAgent: string;
+}
+
+export interface AuditEvent extends AuditContext {
+  id: string;
+  at: string;
+  action: AuditAction;
+  /** The registration acted on; for a listing, the first of `recordIds`. */
+  recordId: string;
+  /** Every registration a listing showed, when one event covers them all. */
+  recordIds?: string[];
+  outcome: AuditOutcome;
+  /** What was touched, e.g. the image field or the retention rule. */
+  detail?: string;
+}
+
+const eventKey = (id: string) => `audit:event:${id}`;
+const guestIndex = (recordId: string) => `audit:guest:${recordId}`;
+const GLOBAL_INDEX = "audit:all";
+
+/** Audit context for a request: the resolved client plus the acting party. */
+export function auditContext(headers: Headers, actor: string): AuditContext {
+  const { ip, userAgent } = resolveClient(headers);
+  return { actor, ip, userAgent };
+}
+
+/** Audit context for scheduled jobs and CLI scripts. */
+export function systemAuditContext(actor: string): AuditContext {
+  return { actor, ip: "", userAgent: "" };
+}
+
+/**
+ * Append one event. Failures are logged, not thrown: the kv layer already
+ * journals writes while the store is down, and a guest shouldn't lose their
+ * PDF because the audit index hiccuped.
+ */
+export async function recordAudit(
+  context: AuditContext,
+  action: AuditAction,
+  recordId: string,
+  outcome: AuditOutcome,
+  detail?: string
+): Promise<void> {
+  await appendEvent(context, action, [recordId], outcome, detail);
+}
+
+/**
+ * Append one event for a page that showed several registrations at once,
+ * listed in each of their per-guest indexes.
+ */
+export async function recordAuditListing(
+  context: AuditContext,
+  action: AuditAction,
+  recordIds: string[],
+  outcome: AuditOutcome,
+  detail?: string
+): Promise<void> {
+  const unique = [...new Set(recordIds)];
+  if (unique.length > 0) await appendEvent(context, action, unique, outcome, detail);
+}
+
+async function appendEvent(
+  context: AuditContext,
+  action: AuditAction,
+  recordIds: string[],
+  outcome: AuditOutcome,
+  detail?: string
+): Promise<void> {
+  const now = Date.now();
+  const event: AuditEvent = {
+    ...context,
+    id: `${now}-${crypto.randomUUID()}`,
+    at: new Date(now).toISOString(),
+    action,
+    recordId: recordIds[0],
+    ...(recordIds.length > 1 ? { recordIds } : {}),
+    outcome,
+    ...(detail ? { detail } : {}),
+  };
+
+  try {
+    await kvSet(eventKey(event.id), event);
+    for (const recordId of recordIds) await kvZAdd(guestIndex(recordId), now, event.id);
+    await kvZAdd(GLOBAL_INDEX, now, event.id);
+  } catch (error) {
+    console.error("Failed to write audit event:", { event, error });
+  }
+}
+
+async function loadEvents(ids: string[]): Promise<AuditEvent[]> {
+  const events = await Promise.all(ids.map(id => kvGet<AuditEvent>(eventKey(id))));
+  return events
+    .filter((event): event is AuditEvent => event !== null)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/** Every event for one registration inside [from, to], oldest first. */
+export async function listAuditEvents(recordId: string, from = 0, to = Date.now()): Promise<AuditEvent[]> {
+  return loadEvents(await kvZRangeByScore(guestIndex(recordId), from, to));
+}
+
+/** Events across all registrations inside [from, to], oldest first. */
+export async function listAllAuditEvents(from: number, to = Date.now()): Promise<AuditEvent[]> {
+  return loadEvents(await kvZRangeByScore(GLOBAL_INDEX, from, to));
+}
@@ -0,0 +1,64 @@
+// lib/auth.ts
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { can, type Permission } from "@/lib/roles";
+import { getUser, type User } from "@/lib/users";
+import { verifyLinkToken, type LinkScope } from "@/lib/signed-links";
+
+// Server-side view of the signed-in staff member. Middleware only checks the
+// cookie signature; pages and routes go through here so that disabled
+// accounts and role changes take effect before the cookie expires.
+
+export async function currentUser(): Promise<User | null> {
+  const session = await verifySessionToken((await cookies()).get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  const user = await getUser(session.username);
+  return user && !user.disabled ? user : null;
+}
+
+/** Audit actor for the signed-in user, or `fallback` for anonymous access. */
+export function actorFor(user: User | null, fallback = "anonymous"): string {
+  return user ? `user:${user.username}` : fallback;
+}
+
+/**
+ * For server components: the signed-in user if they hold `permission`.
+ * Otherwise redirect to the login page, or to the dashboard when signed in
+ * without the permission.
+ */
+export async function requirePermission(permission: Permission): Promise<User> {
+  const user = await currentUser();
+  if (!user) redirect("/admin/login");
+  if (!can(user.role, permission)) redirect("/admin?denied=1");
+  return user;
+}
+
+export interface RecordAccess {
+  /** Audit actor: `user:<name>`, `<scope>-link` for a signed link. */
+  actor: string;
+  via: "session" | LinkScope;
+}
+
+/**
+ * Whether this request may see registration `id`: either a staff session
+ * holding `permission`, or a signed link token in one of `scopes`.
+ */
+export async function recordAccess(
+  id: string,
+  token: string | null | undefined,
+  scopes: LinkScope[],
+  permission: Permission
+): Promise<RecordAccess | null> {
+  const user = await currentUser();
+  if (user && can(user.role, permission)) return { actor: actorFor(user), via: "session" };
+
+  try {
+    const claims = verifyLinkToken(token, id, scopes);
+    return claims ? { actor: `${claims.scope}-link`, via: claims.scope } : null;
+  } catch (error) {
+    console.error("Link verification failed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,127 @@
+// lib/blob/index.ts
+import { createHash } from "crypto";
+import {
+  decryptBytes,
+  encryptBytes,
+  encryptionEnabled,
+  generateDataKey,
+  rewrapDataKey,
+  unwrapDataKey,
+} from "@/lib/encryption";
+import { IMAGE_UPLOAD_TYPES, parseUpload } from "@/lib/uploads";
+import type { BlobDriverName, BlobRef, BlobStore } from "./types";
+import { createLocalBlobStore } from "./local";
+import { createS3BlobStore } from "./s3";
+
+export type { BlobDriverName, BlobRef, BlobStore } from "./types";
+export { createLocalBlobStore, createS3BlobStore };
+
+function requireEnv(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+  if (!value) throw new Error(`${name} is required when BLOB_DRIVER=s3`);
+  return value;
+}
+
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const name = (env.BLOB_DRIVER?.trim().toLowerCase() || "local") as BlobDriverName;
+  switch (name) {
+    case "local":
+      return createLocalBlobStore(env.BLOB_DIR || ".data/blobs");
+    case "s3":
+      return createS3BlobStore({
+        endpoint: requireEnv(env, "S3_ENDPOINT"),
+        bucket: requireEnv(env, "S3_BUCKET"),
+        region: env.S3_REGION || "auto",
+        accessKeyId: requireEnv(env, "S3_ACCESS_KEY_ID"),
+        secretAccessKey: requireEnv(env, "S3_SECRET_ACCESS_KEY"),
+        prefix: env.S3_PREFIX,
+      });
+    default:
+      throw new Error(`Unknown BLOB_DRIVER "${name}". Expected "local" or "s3"`);
+  }
+}
+
+let store: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!store) store = createBlobStore();
+  return store;
+}
+
+export function isBlobRef(value: unknown): value is BlobRef {
+  return typeof value === "object" && value !== null && typeof (value as BlobRef).sha256 === "string";
+}
+
+// Blobs are encrypted under their own data key whenever ENCRYPTION_KEYS is
+// configured; the wrapped key travels in the BlobRef.
+export async function putBlob(bytes: Uint8Array, contentType: string): Promise<BlobRef> {
+  let stored = bytes;
+  let encryption: BlobRef["encryption"];
+  if (encryptionEnabled()) {
+    const dataKey = generateDataKey();
+    stored = encryptBytes(dataKey.key, bytes);
+    encryption = dataKey.wrapped;
+  }
+
+  const sha256 = createHash("sha256").update(stored).digest("hex");
+  await getBlobStore().put(sha256, stored, encryption ? "application/octet-stream" : contentType);
+  return { sha256, contentType, size: bytes.byteLength, ...(encryption && { encryption }) };
+}
+
+export async function getBlob(ref: BlobRef): Promise<Uint8Array | null> {
+  const stored = await getBlobStore().get(ref.sha256);
+  if (!stored || !ref.encryption) return stored;
+  return decryptBytes(unwrapDataKey(ref.encryption), stored);
+}
+
+export async function deleteBlob(ref: BlobRef): Promise<void> {
+  await getBlobStore().del(ref.sha256);
+}
+
+/**
+ * Bring a blob reference up to the active master key: re-wrap the data key
+ * of an encrypted blob, or store an encrypted copy of a plaintext one. The
+ * plaintext original is left in place because other records may share it.
+ */
+export async function reencryptBlobRef(ref: BlobRef): Promise<BlobRef> {
+  if (ref.encryption) return { ...ref, encryption: rewrapDataKey(ref.encryption) };
+
+  const bytes = await getBlob(ref);
+  if (!bytes) throw new Error(`Blob ${ref.sha256} is missing`);
+  return putBlob(bytes, ref.contentType);
+}
+
+/**
+ * Decode a `data:<mime>;base64,...` URL from the form and store its bytes.
+ * Only the accepted types are stored, and only when the bytes match the type.
+ */
+export async function putDataUrl(dataUrl: string, accept: readonly string[] = IMAGE_UPLOAD_TYPES): Promise<BlobRef> {
+  const upload = parseUpload(dataUrl, accept);
+  if (!upload) throw new Error(`Expected a base64 data URL of ${accept.join(", ")}`);
+  return putBlob(new Uint8Array(Buffer.from(upload.base64, "base64")), upload.contentType);
+}
+
+/**
+ * Store a data URL kept inline by a record written before the blob store.
+ * Those were never type-checked, so anything but a PNG, JPEG or PDF is kept
+ * as an opaque download.
+ */
+export async function putLegacyDataUrl(dataUrl: string): Promise<BlobRef> {
+  const match = /^data:([^;,]+);base64,(.+)$/.exec(dataUrl);
+  if (!match) throw new Error("Expected a base64 data URL");
+  const upload = parseUpload(dataUrl, [...IMAGE_UPLOAD_TYPES, "application/pdf"]);
+  return putBlob(new Uint8Array(Buffer.from(match[2], "base64")), upload?.contentType ?? "application/octet-stream");
+}
+
+/**
+ * Turn a stored image field back into a data URL. Records written before
+ * images moved to the blob store still hold the data URL inline.
+ */
+export async function loadDataUrl(value: BlobRef | string | undefined): Promise<string> {
+  if (!value) return "";
+  if (typeof value === "string") return value;
+
+  const bytes = await getBlob(value);
+  if (!bytes) return "";
+  return `data:${value.contentType};base64,${Buffer.from(bytes).toString("base64")}`;
+}
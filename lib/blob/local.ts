@@ -0,0 +1,48 @@
+// lib/blob/local.ts
+import { promises as fs } from "fs";
+import path from "path";
+import type { BlobStore } from "./types";
+
+// Blobs on the local filesystem, fanned out by the first two hex characters
+// of the hash: `<dir>/ab/abcdef...`.
+export function createLocalBlobStore(dir: string): BlobStore {
+  const root = path.resolve(dir);
+  const fileFor = (sha256: string) => path.join(root, sha256.slice(0, 2), sha256);
+
+  return {
+    name: "local",
+
+    async put(sha256: string, bytes: Uint8Array) {
+      const target = fileFor(sha256);
+      try {
+        await fs.access(target);
+        return; // same content already stored
+      } catch {
+        // not there yet
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      const temp = `${target}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+      const handle = await fs.open(temp, "w");
+      try {
+        await handle.writeFile(bytes);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(temp, target);
+    },
+
+    async get(sha256: string) {
+      try {
+        return new Uint8Array(await fs.readFile(fileFor(sha256)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async del(sha256: string) {
+      await fs.rm(fileFor(sha256), { force: true });
+    },
+  };
+}
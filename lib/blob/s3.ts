@@ -0,0 +1,79 @@
+// lib/blob/s3.ts
+import { createHash, createHmac } from "crypto";
+import type { BlobStore } from "./types";
+
+export interface S3Config {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  prefix?: string;
+}
+
+const sha256Hex = (data: string | Uint8Array) => createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest();
+
+// Any S3-compatible object store (AWS S3, Cloudflare R2, MinIO, Backblaze B2)
+// using path-style URLs and AWS Signature Version 4. Objects stay private;
+// they are only ever read back through this driver.
+export function createS3BlobStore(config: S3Config): BlobStore {
+  const endpoint = config.endpoint.replace(/\/+$/, "");
+  const prefix = config.prefix ?? "blobs/";
+
+  const request = async (method: "GET" | "HEAD" | "PUT" | "DELETE", sha256: string, body?: Uint8Array, contentType?: string) => {
+    const url = new URL(`${endpoint}/${config.bucket}/${prefix}${sha256}`);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? "");
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+    const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
+    const canonicalRequest = [
+      method,
+      url.pathname.split("/").map(segment => encodeURIComponent(decodeURIComponent(segment))).join("/"),
+      "",
+      `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const headers: Record<string, string> = {
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+    if (contentType) headers["Content-Type"] = contentType;
+
+    return fetch(url, { method, headers, body: body ? Buffer.from(body) : undefined, cache: "no-store" });
+  };
+
+  return {
+    name: "s3",
+
+    async put(sha256: string, bytes: Uint8Array, contentType: string) {
+      const head = await request("HEAD", sha256);
+      if (head.ok) return; // same content already stored
+
+      const res = await request("PUT", sha256, bytes, contentType);
+      if (!res.ok) throw new Error(`S3 PUT ${sha256} failed: ${res.status} ${await res.text()}`);
+    },
+
+    async get(sha256: string) {
+      const res = await request("GET", sha256);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`S3 GET ${sha256} failed: ${res.status}`);
+      return new Uint8Array(await res.arrayBuffer());
+    },
+
+    async del(sha256: string) {
+      const res = await request("DELETE", sha256);
+      if (!res.ok && res.status !== 404) throw new Error(`S3 DELETE ${sha256} failed: ${res.status}`);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// lib/blob/types.ts
+import type { WrappedKey } from "@/lib/encryption";
+
+/** Pointer to a stored blob, kept in the KV record instead of the bytes. */
+export interface BlobRef {
+  /** Hash of the stored bytes (the ciphertext when encrypted). */
+  sha256: string;
+  contentType: string;
+  /** Size of the original content in bytes. */
+  size: number;
+  /** Present when the stored bytes are encrypted under this data key. */
+  encryption?: WrappedKey;
+}
+
+/**
+ * Content-addressed binary storage. Blobs are keyed by the SHA-256 of their
+ * bytes, so storing the same content twice is a no-op.
+ */
+export interface BlobStore {
+  readonly name: string;
+  put(sha256: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  get(sha256: string): Promise<Uint8Array | null>;
+  del(sha256: string): Promise<void>;
+}
+
+export type BlobDriverName = "local" | "s3";
@@ -0,0 +1,195 @@
+// lib/bookings.ts
+import { z } from "zod";
+import { kvGet, kvSAdd, kvSet, kvSMembers, kvZAdd, kvZRangeByScore } from "@/lib/kv";
+import { createInviteLinkToken, verifyLinkToken } from "@/lib/signed-links";
+
+// Reservations entered by the host or imported from the listing's calendar
+// feed (lib/calendar-import.ts), each with an invitation link that opens the
+// property's registration form with the stay details filled in and locked.
+// Registrations made through the link, or matched by code or dates, are tied
+// to the booking, so the bookings list shows which still have to register.
+//
+//   booking:<id>                 the booking
+//   bookings                     sorted set of booking ids by check-in
+//   booking_code:<code>          booking id by confirmation code
+//   booking_uid:<slug>:<uid>     booking id by calendar event UID
+//   property_bookings:<slug>     set of a property's booking ids
+//   booking_registrations:<id>   set of the registrations tied to the booking
+
+// Stay times as the registration form uses them (local time, no zone)
+const STAY_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+export const BookingSchema = z.object({
+  propertyId: z.string().min(1, "Choose a property"),
+  checkIn: z.string().regex(STAY_TIME, "Invalid check-in"),
+  checkOut: z.string().regex(STAY_TIME, "Invalid check-out"),
+  guests: z.number()
+    .int("Number of guests must be a whole number")
+    .min(1, "At least 1 guest is required")
+    .max(20, "Maximum 20 guests allowed"),
+  /** The platform's reservation code, e.g. Airbnb's HMABC12345. */
+  confirmationCode: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9-]{4,30}$/, "Confirmation codes are 4-30 letters and digits"),
+  /** Name on the reservation, for the host's reference. */
+  guestName: z.string().trim().max(100, "Guest name must be less than 100 characters").optional(),
+})
+.refine(booking => new Date(booking.checkOut) > new Date(booking.checkIn), {
+  message: "Check-out must be after check-in",
+  path: ["checkOut"],
+});
+
+export type BookingInput = z.infer<typeof BookingSchema>;
+
+export interface Booking extends Omit<BookingInput, "guests" | "confirmationCode"> {
+  id: string;
+  /** Unknown for bookings imported from a calendar feed. */
+  guests?: number;
+  confirmationCode?: string;
+  createdAt: string;
+  /** Audit actor who created it. */
+  createdBy: string;
+  /**
+   * Registrations submitted through the invitation or matched to it. Kept in
+   * a set of their own, not the stored booking, so registrations arriving
+   * together (and calendar imports) can't drop each other's.
+   */
+  registrationIds: string[];
+  /** UID of the calendar event the booking was imported from. */
+  icalUid?: string;
+  /** When the booking disappeared from, or was cancelled in, the calendar feed. */
+  cancelledAt?: string;
+}
+
+export class BookingConflictError extends Error {
+  constructor(readonly existingId: string) {
+    super("A booking with this confirmation code already exists");
+    this.name = "BookingConflictError";
+  }
+}
+
+const bookingKey = (id: string) => `booking:${id}`;
+const codeKey = (code: string) => `booking_code:${code}`;
+const uidKey = (propertyId: string, uid: string) => `booking_uid:${propertyId}:${uid}`;
+const propertyIndex = (propertyId: string) => `property_bookings:${propertyId}`;
+const registrationsKey = (id: string) => `booking_registrations:${id}`;
+const BOOKINGS_INDEX = "bookings";
+
+// A calendar date (YYYY-MM-DD) of a stay time
+const day = (stayTime: string) => stayTime.slice(0, 10);
+
+// Bookings stored before the set kept their registrations on the record
+type StoredBooking = Omit<Booking, "registrationIds"> & { registrationIds?: string[] };
+
+export async function getBooking(id: string): Promise<Booking | null> {
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+  const stored = await kvGet<StoredBooking>(bookingKey(id));
+  if (!stored) return null;
+  const linked = await kvSMembers(registrationsKey(id));
+  return { ...stored, registrationIds: [...new Set([...(stored.registrationIds ?? []), ...linked])] };
+}
+
+export async function findBookingByCode(confirmationCode: string): Promise<Booking | null> {
+  const id = await kvGet<string>(codeKey(confirmationCode.trim().toUpperCase()));
+  return id ? getBooking(id) : null;
+}
+
+export async function findBookingByUid(propertyId: string, uid: string): Promise<Booking | null> {
+  const id = await kvGet<string>(uidKey(propertyId, uid));
+  return id ? getBooking(id) : null;
+}
+
+/** Every booking of a property, in no particular order. */
+export async function listPropertyBookings(propertyId: string): Promise<Booking[]> {
+  const ids = await kvSMembers(propertyIndex(propertyId));
+  const bookings = await Promise.all(ids.map(id => getBooking(id)));
+  return bookings.filter((booking): booking is Booking => booking !== null);
+}
+
+/**
+ * Store a booking and (re)index it. Existing bookings keep their id. Its
+ * registrations are only ever added to, through `linkRegistration`.
+ */
+export async function saveBooking(booking: Booking): Promise<void> {
+  const { registrationIds, ...stored } = booking;
+  for (const id of registrationIds) await kvSAdd(registrationsKey(booking.id), id);
+  await kvSet(bookingKey(booking.id), stored);
+  if (booking.confirmationCode) await kvSet(codeKey(booking.confirmationCode), booking.id);
+  if (booking.icalUid) await kvSet(uidKey(booking.propertyId, booking.icalUid), booking.id);
+  await kvSAdd(propertyIndex(booking.propertyId), booking.id);
+  await kvZAdd(BOOKINGS_INDEX, new Date(booking.checkIn).getTime(), booking.id);
+}
+
+/** Create a booking. Confirmation codes are unique. */
+export async function createBooking(input: BookingInput, createdBy: string): Promise<Booking> {
+  const existing = await findBookingByCode(input.confirmationCode);
+  if (existing) throw new BookingConflictError(existing.id);
+
+  const booking: Booking = {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    createdBy,
+    registrationIds: [],
+  };
+  await saveBooking(booking);
+  return booking;
+}
+
+/** Bookings checking in inside [from, to] (ms), earliest first. */
+export async function listBookings(from: number, to: number): Promise<Booking[]> {
+  const ids = await kvZRangeByScore(BOOKINGS_INDEX, from, to);
+  const bookings = await Promise.all(ids.map(id => getBooking(id)));
+  return bookings.filter((booking): booking is Booking => booking !== null);
+}
+
+/** Tie a registration to the booking it was made for. */
+export async function linkRegistration(bookingId: string, registrationId: string): Promise<void> {
+  await kvSAdd(registrationsKey(bookingId), registrationId);
+}
+
+/** The registration form's URL for a booking, with its signed invitation. */
+export function invitePath(booking: Booking): string {
+  const token = createInviteLinkToken(booking.id, booking.checkOut);
+  return `/register/${booking.propertyId}?booking=${booking.id}&token=${encodeURIComponent(token)}`;
+}
+
+/** The booking an invitation link is for, or null if it is invalid, expired or cancelled. */
+export async function bookingFromInvite(bookingId: unknown, token: unknown): Promise<Booking | null> {
+  if (typeof bookingId !== "string" || typeof token !== "string") return null;
+  if (!verifyLinkToken(token, bookingId, ["invite"])) return null;
+  const booking = await getBooking(bookingId);
+  return booking && !booking.cancelledAt ? booking : null;
+}
+
+/**
+ * The booking a registration made without an invitation is for: the one with
+ * the reservation code the guest gave, else the only open booking at the
+ * property with the same check-in and check-out dates. Null if none or
+ * ambiguous.
+ */
+export async function matchBooking(
+  propertyId: string,
+  checkIn: string,
+  checkOut: string,
+  confirmationCode?: string
+): Promise<Booking | null> {
+  if (confirmationCode) {
+    const booking = await findBookingByCode(confirmationCode);
+    if (booking && booking.propertyId === propertyId && !booking.cancelledAt) return booking;
+  }
+
+  // A day either side, since the index is by instant and stay times have no zone
+  const from = new Date(`${day(checkIn)}T00:00`).getTime() - 24 * 60 * 60 * 1000;
+  const candidates = (await listBookings(from, from + 3 * 24 * 60 * 60 * 1000)).filter(booking =>
+    booking.propertyId === propertyId &&
+    !booking.cancelledAt &&
+    day(booking.checkIn) === day(checkIn) &&
+    day(booking.checkOut) === day(checkOut)
+  );
+  // Prefer a booking nobody has registered for yet
+  const open = candidates.filter(booking => booking.registrationIds.length === 0);
+  if (open.length === 1) return open[0];
+  return candidates.length === 1 ? candidates[0] : null;
+}
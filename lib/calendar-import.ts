@@ -0,0 +1,258 @@
+// lib/calendar-import.ts
+import { kvGet, kvSet } from "@/lib/kv";
+import { parseICalendar, type ICalEvent, type ICalTime } from "@/lib/ical";
+import { findBookingByCode, findBookingByUid, listPropertyBookings, saveBooking, type Booking } from "@/lib/bookings";
+import { listProperties, zonedStayTime, type Property } from "@/lib/properties";
+
+// Imports the reservations in a listing's iCalendar export (Airbnb and most
+// channels publish one) as bookings, so nobody re-types them. Events are
+// matched on their UID, so importing a feed again updates its bookings
+// rather than duplicating them; a booking entered by hand is adopted when the
+// event carries its confirmation code. An event marked CANCELLED, or one
+// that has dropped out of the feed before its check-out, cancels its booking.
+//
+//   calendar_import:<slug>    the property's last import report
+
+export interface CalendarImportReport {
+  propertyId: string;
+  /** "upload", a file path or the feed URL. */
+  source: string;
+  at: string;
+  events: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  cancelled: number;
+  /** Owner blocks, and events without usable dates or with another property's code. */
+  skipped: number;
+}
+
+export interface CalendarSyncResult {
+  propertyId: string;
+  report?: CalendarImportReport;
+  error?: string;
+}
+
+// Feeds larger than this are refused rather than parsed
+const MAX_FEED_BYTES = 2 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15_000;
+
+const reportKey = (propertyId: string) => `calendar_import:${propertyId}`;
+
+// Airbnb links each reservation (HMABC12345); other channels write the code out
+const CODE_PATTERNS = [
+  /\/reservations\/details\/([A-Z0-9]{6,30})/i,
+  /\b(?:confirmation|reservation|booking)\s*(?:code|number|no\.?|#)\s*[:#]?\s*([A-Z0-9-]{4,30})\b/i,
+];
+
+function reservationCode(event: ICalEvent): string | undefined {
+  const text = `${event.description ?? ""}\n${event.summary ?? ""}`;
+  for (const pattern of CODE_PATTERNS) {
+    const code = pattern.exec(text)?.[1]?.toUpperCase();
+    if (code && /^[A-Z0-9-]{4,30}$/.test(code)) return code;
+  }
+  return undefined;
+}
+
+// "Reserved - Jane Doe" on channels that include the guest's name
+function guestName(event: ICalEvent): string | undefined {
+  return /^reserved\s*[-:]\s*(.+)$/i.exec(event.summary ?? "")?.[1].trim().slice(0, 100) || undefined;
+}
+
+// Dates the host blocked themselves ("Airbnb (Not available)") aren't stays
+function isOwnerBlock(event: ICalEvent): boolean {
+  return /not available|unavailable|blocked/i.test(event.summary ?? "");
+}
+
+// The instant a wall-clock time in `timeZone` falls on. The zone's offset is
+// looked up at a first guess and again at the result, which settles it on
+// either side of a daylight-saving change.
+function zonedInstant(local: string, timeZone: string): number {
+  const wall = Date.parse(`${local}:00Z`);
+  const offsetAt = (instant: number) => Date.parse(`${zonedStayTime(instant, timeZone)}:00Z`) - instant;
+  return wall - offsetAt(wall - offsetAt(wall));
+}
+
+// An event time as a stay time (YYYY-MM-DDTHH:mm, local to the property).
+// Whole days take the property's check-in or check-out time.
+function stayTime(time: ICalTime, defaultTime: string, timezone: string): string {
+  if (!("time" in time)) return `${time.date}T${defaultTime}`;
+  const local = `${time.date}T${time.time}`;
+  if (time.utc) return zonedStayTime(new Date(`${local}:00Z`), timezone);
+  // Floating times, and zones this runtime doesn't know (some channels write
+  // Windows names), are taken to be the property's own
+  if (!time.tzid || time.tzid === timezone) return local;
+  try {
+    return zonedStayTime(zonedInstant(local, time.tzid), timezone);
+  } catch (error) {
+    if (error instanceof RangeError) return local;
+    throw error;
+  }
+}
+
+// Whole-day events don't move a stay time the host set on the same day
+const keepTime = (time: ICalTime, imported: string, existing: string) =>
+  !("time" in time) && existing.slice(0, 10) === imported.slice(0, 10) ? existing : imported;
+
+// An event without DTEND lasts one day (RFC 5545)
+function endOf(event: ICalEvent): ICalTime {
+  if (event.end) return event.end;
+  const next = new Date(`${event.start.date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return { date: next.toISOString().slice(0, 10) };
+}
+
+const sameBooking = (a: Booking, b: Booking) =>
+  a.checkIn === b.checkIn &&
+  a.checkOut === b.checkOut &&
+  a.icalUid === b.icalUid &&
+  a.confirmationCode === b.confirmationCode &&
+  a.guestName === b.guestName &&
+  a.cancelledAt === b.cancelledAt;
+
+/** Import a property's calendar (the .ics text) as bookings. */
+export async function importCalendar(
+  property: Property,
+  text: string,
+  source: string,
+  createdBy: string
+): Promise<CalendarImportReport> {
+  const events = parseICalendar(text);
+  const at = new Date().toISOString();
+  const report: CalendarImportReport = {
+    propertyId: property.slug,
+    source,
+    at,
+    events: events.length,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    cancelled: 0,
+    skipped: 0,
+  };
+
+  const seen = new Set<string>();
+  for (const event of events) {
+    const code = reservationCode(event);
+    const checkIn = stayTime(event.start, property.checkInFrom, property.timezone);
+    const checkOut = stayTime(endOf(event), property.checkOutBy, property.timezone);
+    if ((!code && isOwnerBlock(event)) || checkOut <= checkIn) {
+      report.skipped++;
+      continue;
+    }
+    seen.add(event.uid);
+    const cancelled = event.status === "CANCELLED";
+
+    let existing = await findBookingByUid(property.slug, event.uid);
+    if (!existing && code) {
+      const byCode = await findBookingByCode(code);
+      if (byCode && byCode.propertyId !== property.slug) {
+        report.skipped++;
+        continue;
+      }
+      existing = byCode;
+    }
+
+    if (!existing) {
+      if (cancelled) {
+        report.skipped++;
+        continue;
+      }
+      await saveBooking({
+        id: crypto.randomUUID(),
+        propertyId: property.slug,
+        checkIn,
+        checkOut,
+        ...(code && { confirmationCode: code }),
+        ...(guestName(event) && { guestName: guestName(event) }),
+        createdAt: at,
+        createdBy,
+        registrationIds: [],
+        icalUid: event.uid,
+      });
+      report.created++;
+      continue;
+    }
+
+    // Reappearing in the feed, uncancelled, restores a booking
+    const updated: Booking = {
+      ...existing,
+      checkIn: keepTime(event.start, checkIn, existing.checkIn),
+      checkOut: keepTime(endOf(event), checkOut, existing.checkOut),
+      icalUid: event.uid,
+      confirmationCode: existing.confirmationCode ?? code,
+      guestName: existing.guestName ?? guestName(event),
+      cancelledAt: cancelled ? existing.cancelledAt ?? at : undefined,
+    };
+    if (sameBooking(existing, updated)) {
+      report.unchanged++;
+    } else {
+      await saveBooking(updated);
+      if (cancelled && !existing.cancelledAt) report.cancelled++;
+      else report.updated++;
+    }
+  }
+
+  // Channels drop cancelled reservations from the feed; past stays drop out too
+  for (const booking of await listPropertyBookings(property.slug)) {
+    if (!booking.icalUid || seen.has(booking.icalUid) || booking.cancelledAt) continue;
+    if (new Date(booking.checkOut).getTime() <= Date.now()) continue;
+    await saveBooking({ ...booking, cancelledAt: at });
+    report.cancelled++;
+  }
+
+  await kvSet(reportKey(property.slug), report);
+  return report;
+}
+
+/** Download a calendar feed. */
+export async function fetchCalendar(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: { Accept: "text/calendar" },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    cache: "no-store",
+  });
+  if (!response.ok) throw new Error(`Calendar feed answered ${response.status}`);
+  if (Number(response.headers.get("content-length")) > MAX_FEED_BYTES) {
+    await response.body?.cancel();
+    throw new Error("Calendar feed is too large");
+  }
+  if (!response.body) return "";
+
+  // Content-Length can be missing or wrong, so the cap is enforced while reading
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw new Error("Calendar feed is too large");
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/** Poll the feed of every property that has one. One failing feed doesn't stop the others. */
+export async function syncCalendars(createdBy: string): Promise<CalendarSyncResult[]> {
+  const properties = (await listProperties()).filter(property => property.icalUrl);
+  const results: CalendarSyncResult[] = [];
+  for (const property of properties) {
+    try {
+      const text = await fetchCalendar(property.icalUrl!);
+      results.push({ propertyId: property.slug, report: await importCalendar(property, text, property.icalUrl!, createdBy) });
+    } catch (error) {
+      console.error("Calendar sync failed:", { propertyId: property.slug, error });
+      results.push({ propertyId: property.slug, error: error instanceof Error ? error.message : "Calendar sync failed" });
+    }
+  }
+  return results;
+}
+
+/** The property's last import, if any. */
+export async function lastCalendarImport(propertyId: string): Promise<CalendarImportReport | null> {
+  return kvGet<CalendarImportReport>(reportKey(propertyId));
+}
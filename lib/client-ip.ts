@@ -0,0 +1,231 @@
+// lib/client-ip.ts
+
+// Work out who the client is from proxy headers without trusting whatever the
+// client put in X-Forwarded-For itself.
+//
+// Proxies append the address they received the request from, so only the
+// right-hand end of the chain is trustworthy. Configure one of:
+//
+//   TRUSTED_PROXIES="10.0.0.0/8,fd00::/8"  skip these addresses from the right
+//   TRUSTED_PROXY_HOPS=2                   number of proxies in front of the app
+//
+// With neither set, X-Forwarded-For and X-Real-IP are ignored, since anyone
+// reaching the app directly can send them. The one exception is Vercel
+// (VERCEL=1), whose edge overwrites X-Forwarded-For with the address it saw,
+// which counts as one hop. Otherwise the client is "unknown": route handlers
+// don't see the socket address.
+
+export interface ClientIdentity {
+  /** Normalised client address, or "unknown". */
+  ip: string;
+  /**
+   * Address bucket for rate limiting: the IPv4 address or an IPv6 /64.
+   * Undefined when the address is unknown, so the limiter skips the address
+   * rather than putting every such client in one bucket.
+   */
+  bucket: string | undefined;
+  userAgent: string;
+}
+
+type ParsedIp = { version: 4; parts: number[] } | { version: 6; parts: number[] };
+
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split(".");
+  if (parts.length !== 4) return null;
+  const octets = parts.map(p => (/^\d{1,3}$/.test(p) ? Number(p) : NaN));
+  return octets.every(o => o >= 0 && o <= 255) ? octets : null;
+}
+
+// Returns the eight 16-bit groups of an IPv6 address
+function parseIPv6(value: string): number[] | null {
+  let text = value;
+
+  // Embedded IPv4 in the last 32 bits, e.g. ::ffff:192.0.2.1
+  const lastColon = text.lastIndexOf(":");
+  if (lastColon !== -1 && text.slice(lastColon + 1).includes(".")) {
+    const v4 = parseIPv4(text.slice(lastColon + 1));
+    if (!v4) return null;
+    const high = ((v4[0] << 8) | v4[1]).toString(16);
+    const low = ((v4[2] << 8) | v4[3]).toString(16);
+    text = `${text.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (s: string) => (s ? s.split(":") : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  const numbers = groups.map(g => (/^[0-9a-f]{1,4}$/i.test(g) ? parseInt(g, 16) : NaN));
+  return numbers.some(Number.isNaN) ? null : numbers;
+}
+
+function parseIp(raw: string): ParsedIp | null {
+  let value = raw.trim().replace(/^"|"$/g, "");
+
+  // [v6]:port, v4:port, and zone ids
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(value);
+  if (bracketed) value = bracketed[1];
+  else if (/^\d+\.\d+\.\d+\.\d+:\d+$/.test(value)) value = value.split(":")[0];
+  value = value.split("%")[0];
+
+  const v4 = parseIPv4(value);
+  if (v4) return { version: 4, parts: v4 };
+
+  const v6 = parseIPv6(value);
+  if (!v6) return null;
+
+  // IPv4-mapped IPv6 (::ffff:a.b.c.d) is really IPv4
+  if (v6.slice(0, 5).every(g => g === 0) && v6[5] === 0xffff) {
+    return { version: 4, parts: [v6[6] >> 8, v6[6] & 0xff, v6[7] >> 8, v6[7] & 0xff] };
+  }
+  return { version: 6, parts: v6 };
+}
+
+// RFC 5952 text form: lowercase, longest zero run compressed
+function formatIPv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) { i++; continue; }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(g => g.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`;
+}
+
+function formatIp(ip: ParsedIp): string {
+  return ip.version === 4 ? ip.parts.join(".") : formatIPv6(ip.parts);
+}
+
+/** Canonical text form of an address, or null if it isn't one. */
+export function normalizeIp(raw: string): string | null {
+  const ip = parseIp(raw);
+  return ip ? formatIp(ip) : null;
+}
+
+function bits(ip: ParsedIp): number[] {
+  const width = ip.version === 4 ? 8 : 16;
+  return ip.parts.flatMap(part => Array.from({ length: width }, (_, i) => (part >> (width - 1 - i)) & 1));
+}
+
+function applyPrefix(ip: ParsedIp, prefix: number): ParsedIp {
+  const width = ip.version === 4 ? 8 : 16;
+  const parts = ip.parts.map((part, index) => {
+    const keep = Math.min(Math.max(prefix - index * width, 0), width);
+    const mask = keep === 0 ? 0 : ((0xffff << (width - keep)) & ((1 << width) - 1));
+    return part & mask;
+  });
+  return { ...ip, parts };
+}
+
+interface Cidr {
+  network: ParsedIp;
+  prefix: number;
+}
+
+function parseCidr(value: string): Cidr | null {
+  const [address, prefixText] = value.trim().split("/");
+  const network = parseIp(address);
+  if (!network) return null;
+  const max = network.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? max : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > max) return null;
+  return { network, prefix };
+}
+
+function inCidr(ip: ParsedIp, cidr: Cidr): boolean {
+  if (ip.version !== cidr.network.version) return false;
+  const a = bits(ip);
+  const b = bits(cidr.network);
+  for (let i = 0; i < cidr.prefix; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+let trustedProxies: Cidr[] | null = null;
+
+function loadTrustedProxies(): Cidr[] {
+  if (trustedProxies) return trustedProxies;
+  trustedProxies = (process.env.TRUSTED_PROXIES || "")
+    .split(",")
+    .filter(entry => entry.trim())
+    .map(entry => {
+      const cidr = parseCidr(entry);
+      if (!cidr) throw new Error(`Invalid TRUSTED_PROXIES entry "${entry}"`);
+      return cidr;
+    });
+  return trustedProxies;
+}
+
+// How many proxies to count back from the right, or null when there is no
+// proxy we know of
+function trustedHops(): number | null {
+  const configured = process.env.TRUSTED_PROXY_HOPS;
+  if (!configured) return process.env.VERCEL === "1" ? 1 : null;
+  const hops = Number(configured);
+  if (!Number.isInteger(hops) || hops < 1) throw new Error(`Invalid TRUSTED_PROXY_HOPS "${configured}"`);
+  return hops;
+}
+
+/** Pick the client address out of X-Forwarded-For / X-Real-IP, if a proxy is trusted to set them. */
+export function resolveClientIp(headers: Headers): string {
+  const proxies = loadTrustedProxies();
+  const hops = proxies.length > 0 ? null : trustedHops();
+  if (proxies.length === 0 && hops === null) return "unknown";
+
+  const forwarded = headers.get("x-forwarded-for");
+  if (!forwarded) {
+    const realIp = parseIp(headers.get("x-real-ip") || "");
+    return realIp ? formatIp(realIp) : "unknown";
+  }
+
+  // Unparseable entries stay in place so they can't shift the hop count
+  const chain = forwarded.split(",").map(entry => parseIp(entry));
+  const pick = (ip: ParsedIp | null) => (ip ? formatIp(ip) : "unknown");
+
+  if (hops === null) {
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const ip = chain[i];
+      if (!ip || !proxies.some(cidr => inCidr(ip, cidr))) return pick(ip);
+    }
+    return pick(chain[0]);
+  }
+
+  return pick(chain[Math.max(chain.length - hops, 0)]);
+}
+
+/**
+ * Group addresses that belong to one client for rate limiting. A single
+ * IPv6 host usually controls a whole /64, so that is the default bucket
+ * (IPV6_BUCKET_PREFIX to change it).
+ */
+export function ipBucket(address: string): string {
+  const ip = parseIp(address);
+  if (!ip) return "unknown";
+  if (ip.version === 4) return formatIp(ip);
+
+  const configured = Number(process.env.IPV6_BUCKET_PREFIX || 64);
+  const prefix = Number.isInteger(configured) && configured >= 16 && configured <= 128 ? configured : 64;
+  return `${formatIp(applyPrefix(ip, prefix))}/${prefix}`;
+}
+
+export function resolveClient(headers: Headers): ClientIdentity {
+  const ip = resolveClientIp(headers);
+  return {
+    ip,
+    bucket: ip === "unknown" ? undefined : ipBucket(ip),
+    userAgent: headers.get("user-agent") || "",
+  };
+}
@@ -0,0 +1,116 @@
+// lib/custom-fields.ts
+import { z } from "zod";
+import type { BlobRef } from "@/lib/blob";
+import { isAcceptedUpload } from "@/lib/uploads";
+
+// Extra registration questions a host defines per property (e.g. vehicle
+// registration, arrival flight, a copy of a visa). The definitions are data
+// on the property; the answer validator is generated from them and used by
+// both the registration form and the submit route, so this module must stay
+// safe to import from client components.
+
+export const CUSTOM_FIELD_TYPES = ["text", "select", "date", "checkbox", "file"] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+// Uploads a custom file field accepts, and their size limit
+export const CUSTOM_FILE_TYPES = ["image/png", "image/jpeg", "application/pdf"] as const;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const MAX_TEXT_LENGTH = 500;
+
+export const CustomFieldSchema = z.object({
+  key: z.string().regex(/^[a-z][a-zA-Z0-9]{0,39}$/, "Field keys must be camelCase letters and digits, e.g. vehicleReg"),
+  label: z.string().trim().min(1, "Every field needs a label").max(100, "Labels must be less than 100 characters"),
+  type: z.enum(CUSTOM_FIELD_TYPES, {
+    errorMap: () => ({ message: `Field type must be one of ${CUSTOM_FIELD_TYPES.join(", ")}` }),
+  }),
+  required: z.boolean().default(false),
+  /** Choices for a select field. */
+  options: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  /** Hint shown under the input. */
+  help: z.string().trim().max(300).optional(),
+})
+.refine(field => field.type !== "select" || (field.options?.length ?? 0) > 0, {
+  message: "Select fields need at least one option",
+  path: ["options"],
+});
+
+export const CustomFieldsSchema = z.array(CustomFieldSchema)
+  .max(20, "A property can have at most 20 custom fields")
+  .refine(fields => new Set(fields.map(field => field.key)).size === fields.length, "Field keys must be unique");
+
+export type CustomField = z.infer<typeof CustomFieldSchema>;
+
+/** A custom answer as stored on the registration, with the question as it was asked. */
+export interface CustomAnswer {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  /** Text, option, YYYY-MM-DD date, checkbox state, or the uploaded file. */
+  value: string | boolean | BlobRef;
+}
+
+/** What the form sends: uploads are still data URLs. */
+export type CustomAnswersInput = Record<string, string | boolean | undefined>;
+
+// Empty inputs count as unanswered
+const blankToUndefined = (value: unknown) => (value === "" ? undefined : value);
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function isAcceptedFile(value: string): boolean {
+  return isAcceptedUpload(value, CUSTOM_FILE_TYPES, MAX_FILE_BYTES);
+}
+
+function answerSchema(field: CustomField): z.ZodTypeAny {
+  const required = `${field.label} is required`;
+
+  let schema: z.ZodTypeAny;
+  switch (field.type) {
+    case "text":
+      schema = z.string({ required_error: required })
+        .trim()
+        .min(1, required)
+        .max(MAX_TEXT_LENGTH, `${field.label} must be less than ${MAX_TEXT_LENGTH} characters`);
+      break;
+    case "select":
+      schema = z.string({ required_error: required })
+        .refine(value => field.options?.includes(value), `Choose one of the options for ${field.label}`);
+      break;
+    case "date":
+      schema = z.string({ required_error: required }).refine(isValidDate, `${field.label} must be a valid date`);
+      break;
+    case "checkbox":
+      // A required checkbox is an acknowledgement: it must be ticked
+      return field.required
+        ? z.literal(true, { errorMap: () => ({ message: required }) })
+        : z.boolean().optional();
+    case "file":
+      schema = z.string({ required_error: required })
+        .refine(isAcceptedFile, `${field.label} must be a PNG, JPEG or PDF of at most 5MB`);
+      break;
+  }
+
+  return z.preprocess(blankToUndefined, field.required ? schema : schema.optional());
+}
+
+/** The validator for a property's custom answers, keyed by field key. */
+export function customAnswersSchema(fields: CustomField[]) {
+  return z.object(Object.fromEntries(fields.map(field => [field.key, answerSchema(field)])));
+}
+
+/** Whether the guest has given an answer (for progress, not validation). */
+export function hasAnswer(value: unknown): boolean {
+  return value !== undefined && value !== "" && value !== false;
+}
+
+/** An answer as text, for the PDF and admin views. Files are described, not shown. */
+export function formatCustomAnswer(answer: CustomAnswer): string {
+  if (typeof answer.value === "boolean") return answer.value ? "Yes" : "No";
+  if (typeof answer.value === "string") return answer.value;
+  return `File on record (${answer.value.contentType}, ${Math.ceil(answer.value.size / 1024)} KB)`;
+}
@@ -0,0 +1,150 @@
+// lib/encryption.ts
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Envelope encryption for personal information at rest (POPIA s19).
+//
+// Every sealed record or blob gets its own random 256-bit data key. The data
+// is encrypted with AES-256-GCM under that key, and the data key itself is
+// wrapped (also AES-256-GCM) by a master key taken from the environment:
+//
+//   ENCRYPTION_KEYS="2025-01:<base64 32 bytes>,2024-01:<base64 32 bytes>"
+//   ENCRYPTION_ACTIVE_KEY=2025-01   (defaults to the first key listed)
+//
+// Old master keys stay listed until `npm run rotate-keys` has re-wrapped every
+// record under the active key.
+
+export interface WrappedKey {
+  /** Id of the master key that wrapped `wrappedKey`. */
+  kekId: string;
+  /** base64(iv | authTag | encrypted data key) */
+  wrappedKey: string;
+}
+
+/** A field value replaced by its ciphertext, base64(iv | authTag | data). */
+export interface EncryptedField {
+  $enc: string;
+}
+
+interface Keyring {
+  activeId: string;
+  keys: Map<string, Buffer>;
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export class EncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptionKeyError";
+  }
+}
+
+let keyring: Keyring | null | undefined;
+
+function loadKeyring(): Keyring | null {
+  if (keyring !== undefined) return keyring;
+
+  const raw = process.env.ENCRYPTION_KEYS?.trim();
+  if (!raw) {
+    // Plaintext is a development convenience only: production refuses to
+    // store guest records or images without a key
+    if (process.env.NODE_ENV === "production") {
+      throw new EncryptionKeyError("ENCRYPTION_KEYS must be set in production");
+    }
+    keyring = null;
+    return keyring;
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const pair of raw.split(",")) {
+    const [id, encoded] = pair.trim().split(":");
+    const key = Buffer.from(encoded || "", "base64");
+    if (!id || key.length !== 32) {
+      throw new EncryptionKeyError(`ENCRYPTION_KEYS entry "${id}" must be <id>:<base64 of 32 bytes>`);
+    }
+    keys.set(id, key);
+  }
+
+  const activeId = process.env.ENCRYPTION_ACTIVE_KEY?.trim() || keys.keys().next().value!;
+  if (!keys.has(activeId)) {
+    throw new EncryptionKeyError(`ENCRYPTION_ACTIVE_KEY "${activeId}" is not listed in ENCRYPTION_KEYS`);
+  }
+
+  keyring = { activeId, keys };
+  return keyring;
+}
+
+export function encryptionEnabled(): boolean {
+  return loadKeyring() !== null;
+}
+
+export function activeKeyId(): string | null {
+  return loadKeyring()?.activeId ?? null;
+}
+
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function masterKey(kekId: string): Buffer {
+  const ring = loadKeyring();
+  const key = ring?.keys.get(kekId);
+  if (!key) throw new EncryptionKeyError(`Master key "${kekId}" is not configured in ENCRYPTION_KEYS`);
+  return key;
+}
+
+/** A fresh data key, plus the same key wrapped by the active master key. */
+export function generateDataKey(): { key: Buffer; wrapped: WrappedKey } {
+  const ring = loadKeyring();
+  if (!ring) throw new EncryptionKeyError("ENCRYPTION_KEYS is not configured");
+
+  const key = randomBytes(32);
+  const wrappedKey = seal(masterKey(ring.activeId), key).toString("base64");
+  return { key, wrapped: { kekId: ring.activeId, wrappedKey } };
+}
+
+export function unwrapDataKey(wrapped: WrappedKey): Buffer {
+  return open(masterKey(wrapped.kekId), Buffer.from(wrapped.wrappedKey, "base64"));
+}
+
+/** Re-wrap a data key under the active master key; the data is untouched. */
+export function rewrapDataKey(wrapped: WrappedKey): WrappedKey {
+  const ring = loadKeyring();
+  if (!ring) throw new EncryptionKeyError("ENCRYPTION_KEYS is not configured");
+  if (wrapped.kekId === ring.activeId) return wrapped;
+
+  const key = unwrapDataKey(wrapped);
+  return { kekId: ring.activeId, wrappedKey: seal(masterKey(ring.activeId), key).toString("base64") };
+}
+
+export function encryptBytes(key: Buffer, bytes: Uint8Array): Uint8Array {
+  return new Uint8Array(seal(key, Buffer.from(bytes)));
+}
+
+export function decryptBytes(key: Buffer, bytes: Uint8Array): Uint8Array {
+  return new Uint8Array(open(key, Buffer.from(bytes)));
+}
+
+export function isEncryptedField(value: unknown): value is EncryptedField {
+  return typeof value === "object" && value !== null && typeof (value as EncryptedField).$enc === "string";
+}
+
+export function encryptField(key: Buffer, value: string): EncryptedField {
+  return { $enc: seal(key, Buffer.from(value, "utf8")).toString("base64") };
+}
+
+export function decryptField(key: Buffer, value: EncryptedField): string {
+  return open(key, Buffer.from(value.$enc, "base64")).toString("utf8");
+}
@@ -0,0 +1,192 @@
+// lib/guest-requests.ts
+import { kvGet, kvSAdd, kvSet, kvSMembers, kvZAdd, kvZRangeByScore, unindexSubmission } from "@/lib/kv";
+import { getSubmission, saveSubmission } from "@/lib/submissions";
+import { applyErasure } from "@/lib/retention";
+import { recordAudit, systemAuditContext } from "@/lib/audit";
+import { RegistrationFields } from "@/lib/registration";
+import { sendMail } from "@/lib/mailer";
+
+// POPIA requests lodged by guests through the portal: corrections to their
+// registration and erasure. Nothing changes until a host approves the request
+// in /admin/requests; erasure then goes through lib/retention.ts so legal
+// holds and the statutory register period are respected.
+//
+//   guest_request:<id>                  the request
+//   guest_requests                      sorted set of all ids by creation time
+//   guest_requests:record:<recordId>    ids per registration
+
+export const CORRECTABLE_FIELDS = [
+  "fullName",
+  "idOrPassport",
+  "nationality",
+  "dateOfBirth",
+  "residenceStatus",
+  "homeAddress",
+  "phone",
+  "email",
+] as const;
+export type CorrectableField = (typeof CORRECTABLE_FIELDS)[number];
+
+export const CorrectionSchema = RegistrationFields.pick({
+  fullName: true,
+  idOrPassport: true,
+  nationality: true,
+  dateOfBirth: true,
+  residenceStatus: true,
+  homeAddress: true,
+  phone: true,
+  email: true,
+}).partial().refine(fields => Object.values(fields).some(Boolean), "Enter at least one corrected value");
+
+export type GuestRequestType = "correction" | "erasure";
+export type GuestRequestStatus = "pending" | "completed" | "restricted" | "rejected";
+
+export interface GuestRequest {
+  id: string;
+  type: GuestRequestType;
+  recordId: string;
+  /** Verified portal email the request came from; updates go here. */
+  email: string;
+  createdAt: string;
+  status: GuestRequestStatus;
+  corrections?: Partial<Record<CorrectableField, string>>;
+  note?: string;
+  resolution?: { by: string; at: string; message: string };
+}
+
+export interface ResolveResult {
+  request: GuestRequest;
+  message: string;
+}
+
+const requestKey = (id: string) => `guest_request:${id}`;
+const REQUESTS_INDEX = "guest_requests";
+const recordRequestsKey = (recordId: string) => `guest_requests:record:${recordId}`;
+
+export async function getGuestRequest(id: string): Promise<GuestRequest | null> {
+  return kvGet<GuestRequest>(requestKey(id));
+}
+
+async function loadRequests(ids: string[]): Promise<GuestRequest[]> {
+  const requests = await Promise.all(ids.map(id => getGuestRequest(id)));
+  return requests
+    .filter((request): request is GuestRequest => request !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Every request, oldest first; optionally only those with `status`. */
+export async function listGuestRequests(status?: GuestRequestStatus): Promise<GuestRequest[]> {
+  const requests = await loadRequests(await kvZRangeByScore(REQUESTS_INDEX, 0, Date.now()));
+  return status ? requests.filter(request => request.status === status) : requests;
+}
+
+export async function listRequestsForRecord(recordId: string): Promise<GuestRequest[]> {
+  return loadRequests(await kvSMembers(recordRequestsKey(recordId)));
+}
+
+export async function createGuestRequest(input: {
+  type: GuestRequestType;
+  recordId: string;
+  email: string;
+  corrections?: Partial<Record<CorrectableField, string>>;
+  note?: string;
+}): Promise<GuestRequest> {
+  const request: GuestRequest = {
+    id: crypto.randomUUID(),
+    type: input.type,
+    recordId: input.recordId,
+    email: input.email,
+    createdAt: new Date().toISOString(),
+    status: "pending",
+    ...(input.type === "correction" ? { corrections: CorrectionSchema.parse(input.corrections ?? {}) } : {}),
+    ...(input.note?.trim() ? { note: input.note.trim().slice(0, 1000) } : {}),
+  };
+
+  await kvSet(requestKey(request.id), request);
+  await kvZAdd(REQUESTS_INDEX, Date.parse(request.createdAt), request.id);
+  await kvSAdd(recordRequestsKey(request.recordId), request.id);
+  return request;
+}
+
+async function applyCorrection(request: GuestRequest, actor: string): Promise<{ status: GuestRequestStatus; message: string }> {
+  const record = await getSubmission(request.recordId);
+  if (!record) return { status: "rejected", message: "The registration no longer exists." };
+
+  const corrections = CorrectionSchema.parse(request.corrections ?? {});
+  const fields = Object.keys(corrections);
+
+  // Email and ID number are indexed, so drop the old index entries first
+  await unindexSubmission(record);
+  await saveSubmission({ ...record, data: { ...record.data, ...corrections } });
+  await recordAudit(systemAuditContext(actor), "update", record.id, "success", `correction: ${fields.join(", ")}`);
+
+  return { status: "completed", message: `Corrected ${fields.join(", ")}.` };
+}
+
+async function applyErasureRequest(request: GuestRequest, actor: string): Promise<{ status: GuestRequestStatus; message: string } | null> {
+  const result = await applyErasure(request.recordId, actor);
+  switch (result.outcome) {
+    case "deleted":
+      return { status: "completed", message: "The registration has been erased." };
+    case "not_found":
+      return { status: "completed", message: "The registration had already been deleted." };
+    case "restricted":
+      return {
+        status: "restricted",
+        message:
+          `The law requires us to keep the register entry until ${result.retainUntil.slice(0, 10)}; it will be deleted then.` +
+          (result.fields.length > 0 ? ` We have already removed: ${result.fields.join(", ")}.` : ""),
+      };
+    case "held":
+      // Stays pending until the hold is released
+      return null;
+  }
+}
+
+/**
+ * Approve (apply) or reject a pending request and email the guest the
+ * outcome. Erasure of a record under a legal hold can't be approved; the
+ * request stays pending.
+ */
+export async function resolveGuestRequest(
+  id: string,
+  decision: "approve" | "reject",
+  actor: string,
+  note?: string
+): Promise<ResolveResult | null> {
+  const request = await getGuestRequest(id);
+  if (!request) return null;
+  if (request.status !== "pending") return { request, message: "This request has already been resolved." };
+
+  let outcome: { status: GuestRequestStatus; message: string } | null;
+  if (decision === "reject") {
+    outcome = { status: "rejected", message: note?.trim() || "Your request was declined." };
+  } else if (request.type === "correction") {
+    outcome = await applyCorrection(request, actor);
+  } else {
+    outcome = await applyErasureRequest(request, actor);
+  }
+
+  if (!outcome) {
+    return { request, message: "The registration is under a legal hold and can't be erased until it is released." };
+  }
+
+  const resolved: GuestRequest = {
+    ...request,
+    status: outcome.status,
+    resolution: { by: actor, at: new Date().toISOString(), message: outcome.message },
+  };
+  await kvSet(requestKey(id), resolved);
+
+  try {
+    await sendMail({
+      to: request.email,
+      subject: `Your ${request.type} request`,
+      text: `We have dealt with your ${request.type} request from ${request.createdAt.slice(0, 10)}.\n\n${outcome.message}`,
+    });
+  } catch (error) {
+    console.error("Failed to email request outcome:", { id, error });
+  }
+
+  return { request: resolved, message: outcome.message };
+}
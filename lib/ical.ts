@@ -0,0 +1,116 @@
+// lib/ical.ts
+
+// A minimal iCalendar (RFC 5545) reader for the reservation feeds channels
+// export: just the VEVENTs, with the properties a booking needs. Recurrence,
+// alarms and time zone definitions are ignored.
+
+export class ICalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ICalParseError";
+  }
+}
+
+/** A DTSTART/DTEND value: a whole day, or a time (UTC, or local to `tzid` or floating). */
+export type ICalTime =
+  | { date: string }
+  | { date: string; time: string; utc: boolean; tzid?: string };
+
+export interface ICalEvent {
+  uid: string;
+  start: ICalTime;
+  end?: ICalTime;
+  summary?: string;
+  description?: string;
+  /** CONFIRMED, TENTATIVE or CANCELLED, upper-cased. */
+  status?: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Long lines are folded onto continuation lines starting with a space or tab
+function unfold(text: string): string[] {
+  return text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+}
+
+function parseLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+function parseTime({ params, value }: ContentLine): ICalTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  if (params.VALUE === "DATE" || match[4] === undefined) return { date };
+  return { date, time: `${match[4]}:${match[5]}`, utc: match[6] === "Z", ...(params.TZID && { tzid: params.TZID }) };
+}
+
+/** The events of a calendar. Events without a UID or start are skipped. */
+export function parseICalendar(text: string): ICalEvent[] {
+  const lines = unfold(text);
+  if (!lines.some(line => line.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new ICalParseError("Not an iCalendar file");
+  }
+
+  const events: ICalEvent[] = [];
+  let current: Partial<ICalEvent> | null = null;
+  for (const raw of lines) {
+    const line = parseLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = {};
+    } else if (line.name === "END" && line.value.toUpperCase() === "VEVENT") {
+      if (current?.uid && current.start) events.push(current as ICalEvent);
+      current = null;
+    } else if (current) {
+      switch (line.name) {
+        case "UID":
+          current.uid = line.value.trim();
+          break;
+        case "DTSTART":
+          current.start = parseTime(line) ?? undefined;
+          break;
+        case "DTEND":
+          current.end = parseTime(line) ?? undefined;
+          break;
+        case "SUMMARY":
+          current.summary = unescapeText(line.value).trim();
+          break;
+        case "DESCRIPTION":
+          current.description = unescapeText(line.value).trim();
+          break;
+        case "STATUS":
+          current.status = line.value.trim().toUpperCase();
+          break;
+      }
+    }
+  }
+  return events;
+}
@@ -0,0 +1,68 @@
+// lib/image-response.ts
+import { NextResponse } from "next/server";
+import { getBlob, type BlobRef } from "@/lib/blob";
+import { companionIdImages, customFileAnswers, getSubmission, IMAGE_FIELDS } from "@/lib/submissions";
+import { recordAudit, type AuditContext } from "@/lib/audit";
+import { IMAGE_UPLOAD_TYPES } from "@/lib/uploads";
+import type { ImageField, SubmissionRecord } from "@/lib/records";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Files uploaded to a property's custom fields are addressed as `custom.<key>`,
+// the rest of the party's ID images as `companions.<n>.idImage`
+const CUSTOM_FILE_PATTERN = /^custom\.[a-z][a-zA-Z0-9]{0,39}$/;
+const COMPANION_IMAGE_PATTERN = /^companions\.(\d{1,2})\.idImage$/;
+
+function fieldRef(submission: SubmissionRecord, field: string): BlobRef | undefined {
+  const companion = COMPANION_IMAGE_PATTERN.exec(field);
+  if (companion) {
+    return companionIdImages(submission.data).find(image => image.index === Number(companion[1]))?.value;
+  }
+  if (CUSTOM_FILE_PATTERN.test(field)) {
+    return customFileAnswers(submission.data).find(answer => `custom.${answer.key}` === field)?.value;
+  }
+  return submission.data[field as ImageField];
+}
+
+/**
+ * Stream one image (or uploaded custom file) of a registration from the
+ * blob store, auditing the read.
+ * Shared by the guest-facing and admin image routes.
+ */
+export async function submissionImageResponse(id: string, field: string, audit: AuditContext): Promise<Response> {
+  if (!UUID_PATTERN.test(id)) {
+    return NextResponse.json({ error: "Invalid ID format" }, { status: 400 });
+  }
+  if (!IMAGE_FIELDS.includes(field as ImageField) && !CUSTOM_FILE_PATTERN.test(field) && !COMPANION_IMAGE_PATTERN.test(field)) {
+    return NextResponse.json({ error: "Unknown image" }, { status: 404 });
+  }
+
+  try {
+    const submission = await getSubmission(id);
+    const ref = submission ? fieldRef(submission, field) : undefined;
+    const bytes = ref ? await getBlob(ref) : null;
+    if (!ref || !bytes) {
+      await recordAudit(audit, "read", id, "not_found", field);
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    await recordAudit(audit, "read", id, "success", field);
+    // Served from the app's origin, so nothing in a stored file may run: only
+    // PNGs and JPEGs display inline, anything else (PDFs, older uploads) downloads
+    const inline = (IMAGE_UPLOAD_TYPES as readonly string[]).includes(ref.contentType);
+    return new Response(new Blob([new Uint8Array(bytes)], { type: ref.contentType }), {
+      status: 200,
+      headers: {
+        "Content-Type": ref.contentType,
+        "Cache-Control": "private, no-cache, no-store, must-revalidate",
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "sandbox; default-src 'none'",
+        ...(!inline && { "Content-Disposition": `attachment; filename="${field}"` }),
+      },
+    });
+  } catch (error) {
+    console.error("Image fetch error:", error);
+    await recordAudit(audit, "read", id, "error", field);
+    return NextResponse.json({ error: "Failed to load image" }, { status: 500 });
+  }
+}
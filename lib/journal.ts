@@ -0,0 +1,176 @@
+// lib/journal.ts
+import { promises as fs } from "fs";
+import path from "path";
+import type { StorageDriver } from "@/lib/storage";
+
+// Write-ahead journal for writes the storage driver rejected. Entries are
+// appended as newline-delimited JSON and fsync'd before we report success,
+// then replayed in order once the driver accepts writes again.
+
+export interface JournalEntry {
+  op: "set" | "del" | "zadd" | "zrem" | "sadd" | "srem";
+  key: string;
+  value?: unknown;
+  /** Member (and score) for the sorted-set and set operations. */
+  member?: string;
+  score?: number;
+  /** Absolute expiry (ms since epoch) so replay keeps the original TTL. */
+  expiresAt: number | null;
+  journaledAt: number;
+}
+
+export interface JournalStatus {
+  path: string;
+  pending: number;
+  oldestJournaledAt: number | null;
+  lastReplayAt: number | null;
+  lastReplayError: string | null;
+}
+
+const journalPath = () => path.resolve(process.env.JOURNAL_PATH || ".data/journal.ndjson");
+
+let replaying: Promise<number> | null = null;
+let lastReplayAt: number | null = null;
+let lastReplayError: string | null = null;
+
+// Appends and the rewrite after a replay take turns: an append landing
+// between the rewrite's read and its rename would go to the replaced file
+// and be lost
+let journalLock: Promise<unknown> = Promise.resolve();
+function withJournalLock<R>(fn: () => Promise<R>): Promise<R> {
+  const next = journalLock.catch(() => undefined).then(fn);
+  journalLock = next;
+  return next;
+}
+
+export function appendJournal(entry: JournalEntry): Promise<void> {
+  return withJournalLock(async () => {
+    const file = journalPath();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const handle = await fs.open(file, "a");
+    try {
+      await handle.appendFile(`${JSON.stringify(entry)}\n`);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  });
+}
+
+export async function readJournal(): Promise<JournalEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(journalPath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  return raw
+    .split("\n")
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as JournalEntry);
+}
+
+export async function hasPendingEntries(): Promise<boolean> {
+  try {
+    const stat = await fs.stat(journalPath());
+    return stat.size > 0;
+  } catch {
+    return false;
+  }
+}
+
+// Latest journaled state for a key: the value if the last entry was a set,
+// `null` if it was a delete, `undefined` if the journal doesn't mention it.
+export async function pendingValue<T>(key: string): Promise<T | null | undefined> {
+  if (!(await hasPendingEntries())) return undefined;
+  const entries = await readJournal();
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.key !== key || (entry.op !== "set" && entry.op !== "del")) continue;
+    if (entry.op === "del") return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) return null;
+    return entry.value as T;
+  }
+  return undefined;
+}
+
+async function rewriteJournal(entries: JournalEntry[]) {
+  const file = journalPath();
+  if (entries.length === 0) {
+    await fs.rm(file, { force: true });
+    return;
+  }
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, entries.map(entry => `${JSON.stringify(entry)}\n`).join(""));
+  await fs.rename(temp, file);
+}
+
+async function applyEntry(driver: StorageDriver, entry: JournalEntry): Promise<void> {
+  const member = entry.member ?? "";
+  switch (entry.op) {
+    case "set": {
+      if (entry.expiresAt === null) return driver.set(entry.key, entry.value);
+      const ex = Math.floor((entry.expiresAt - Date.now()) / 1000);
+      if (ex > 0) return driver.set(entry.key, entry.value, { ex });
+      return;
+    }
+    case "del":
+      return driver.del(entry.key);
+    case "zadd":
+      return driver.zadd(entry.key, entry.score ?? 0, member);
+    case "zrem":
+      return driver.zrem(entry.key, member);
+    case "sadd":
+      return driver.sadd(entry.key, member);
+    case "srem":
+      return driver.srem(entry.key, member);
+  }
+}
+
+async function applyEntries(driver: StorageDriver): Promise<number> {
+  const entries = await readJournal();
+  let applied = 0;
+
+  try {
+    for (const entry of entries) {
+      await applyEntry(driver, entry);
+      applied++;
+    }
+    lastReplayError = null;
+  } catch (error) {
+    lastReplayError = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    lastReplayAt = Date.now();
+    // Entries appended while we were replaying stay after the applied prefix
+    await withJournalLock(async () => rewriteJournal((await readJournal()).slice(applied)));
+  }
+
+  return applied;
+}
+
+/**
+ * Replay journaled writes against the driver in their original order.
+ * Stops at the first failure and keeps the remaining entries. Concurrent
+ * callers share the same in-flight replay.
+ */
+export function replayJournal(driver: StorageDriver): Promise<number> {
+  if (!replaying) {
+    replaying = applyEntries(driver).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+export async function getJournalStatus(): Promise<JournalStatus> {
+  const entries = await readJournal();
+  return {
+    path: journalPath(),
+    pending: entries.length,
+    oldestJournaledAt: entries[0]?.journaledAt ?? null,
+    lastReplayAt,
+    lastReplayError,
+  };
+}
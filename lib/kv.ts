@@ -1,32 +1,264 @@
-import { kv } from "@vercel/kv";
+// lib/kv.ts
+import { createHash } from "crypto";
+import { getStorageDriver, type SetOptions } from "@/lib/storage";
+import { globToRegExp } from "@/lib/storage/pattern";
+import {
+  appendJournal,
+  hasPendingEntries,
+  pendingValue,
+  readJournal,
+  replayJournal,
+  type JournalEntry,
+} from "@/lib/journal";
 
+export type { SetOptions };
 
-type Submission = {
-    id: string;
-    createdAt: number;
-    data: any; // validated payload
-};
+// What happens when the storage driver rejects a write:
+//   journal - append it to the local write-ahead journal and replay later
+//   reject  - fail the request; nothing is reported as saved
+export type PersistenceMode = "journal" | "reject";
 
+export type WriteResult = { status: "stored" } | { status: "journaled" };
 
-// DEV fallback (in-memory). DO NOT rely on in prod.
-const memory = new Map<string, Submission>();
+export class StorageUnavailableError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "StorageUnavailableError";
+  }
+}
+
+export function persistenceMode(): PersistenceMode {
+  return process.env.PERSISTENCE_MODE === "reject" ? "reject" : "journal";
+}
 
 
-export async function kvSet(key: string, value: Submission) {
+// Replay anything journaled before attempting new writes so the store
+// sees operations in the order they were accepted.
+async function flushJournal(): Promise<boolean> {
+  if (!(await hasPendingEntries())) return true;
+  try {
+    const applied = await replayJournal(getStorageDriver());
+    console.info(`Replayed ${applied} journaled storage write(s)`);
+    return true;
+  } catch (error) {
+    console.error("Journal replay failed, storage still unavailable:", error);
+    return false;
+  }
+}
+
+
+async function writeOrJournal(entry: JournalEntry, write: () => Promise<void>): Promise<WriteResult> {
+  let failure: unknown = null;
+
+  if (await flushJournal()) {
     try {
-        await kv.set(key, value);
-    } catch (e) {
-        memory.set(key, value);
+      await write();
+      return { status: "stored" };
+    } catch (error) {
+      failure = error;
     }
+  } else {
+    failure = new Error("Earlier journaled writes are still pending");
+  }
+
+  if (persistenceMode() === "reject") {
+    throw new StorageUnavailableError(`Storage rejected ${entry.op} of ${entry.key}`, failure);
+  }
+
+  try {
+    await appendJournal(entry);
+  } catch (journalError) {
+    console.error("Journal append failed:", journalError);
+    throw new StorageUnavailableError(`Storage and journal both failed for ${entry.key}`, failure);
+  }
+
+  console.error(`STORAGE DEGRADED: ${entry.op} of ${entry.key} journaled locally for replay:`, failure);
+  return { status: "journaled" };
 }
 
 
-export async function kvGet<T = Submission>(key: string): Promise<T | null> {
-    try {
-        const v = await kv.get<T>(key);
-        if (v) return v;
-    } catch (e) {
-        // fall through
+export async function kvSet<T>(key: string, value: T, options?: SetOptions): Promise<WriteResult> {
+  const entry: JournalEntry = {
+    op: "set",
+    key,
+    value,
+    expiresAt: options?.ex && options.ex > 0 ? Date.now() + options.ex * 1000 : null,
+    journaledAt: Date.now(),
+  };
+  return writeOrJournal(entry, () => getStorageDriver().set(key, value, options));
+}
+
+
+export async function kvGet<T = unknown>(key: string): Promise<T | null> {
+  // A journaled write is newer than whatever the store holds
+  const pending = await pendingValue<T>(key);
+  if (pending !== undefined) return pending;
+
+  try {
+    return await getStorageDriver().get<T>(key);
+  } catch (error) {
+    throw new StorageUnavailableError(`Storage read failed for ${key}`, error);
+  }
+}
+
+
+export async function kvDel(key: string): Promise<WriteResult> {
+  const entry: JournalEntry = { op: "del", key, expiresAt: null, journaledAt: Date.now() };
+  return writeOrJournal(entry, () => getStorageDriver().del(key));
+}
+
+
+// Counters are ephemeral (rate limits), so they bypass the journal: callers
+// decide whether a StorageUnavailableError fails open or closed.
+export async function kvIncr(key: string, ex?: number): Promise<number> {
+  try {
+    return await getStorageDriver().incr(key, ex);
+  } catch (error) {
+    throw new StorageUnavailableError(`Storage increment failed for ${key}`, error);
+  }
+}
+
+
+// Collect every key matching a glob pattern, e.g. `guest:*`.
+export async function kvScan(pattern: string): Promise<string[]> {
+  const keys = new Set<string>();
+  for await (const key of getStorageDriver().scan(pattern)) keys.add(key);
+
+  // Include keys that so far only exist in the journal
+  if (await hasPendingEntries()) {
+    const matcher = globToRegExp(pattern);
+    for (const entry of await readJournal()) {
+      if (!matcher.test(entry.key)) continue;
+      if (entry.op === "set") keys.add(entry.key);
+      else if (entry.op === "del") keys.delete(entry.key);
     }
-    return (memory.get(key) as T) || null;
-}
\ No newline at end of file
+  }
+  return Array.from(keys);
+}
+
+
+// Sorted sets and sets. Writes go through the same journal as kvSet.
+
+export async function kvZAdd(key: string, score: number, member: string): Promise<WriteResult> {
+  const entry: JournalEntry = { op: "zadd", key, member, score, expiresAt: null, journaledAt: Date.now() };
+  return writeOrJournal(entry, () => getStorageDriver().zadd(key, score, member));
+}
+
+
+export async function kvZRem(key: string, member: string): Promise<WriteResult> {
+  const entry: JournalEntry = { op: "zrem", key, member, expiresAt: null, journaledAt: Date.now() };
+  return writeOrJournal(entry, () => getStorageDriver().zrem(key, member));
+}
+
+
+export async function kvSAdd(key: string, member: string): Promise<WriteResult> {
+  const entry: JournalEntry = { op: "sadd", key, member, expiresAt: null, journaledAt: Date.now() };
+  return writeOrJournal(entry, () => getStorageDriver().sadd(key, member));
+}
+
+
+export async function kvSRem(key: string, member: string): Promise<WriteResult> {
+  const entry: JournalEntry = { op: "srem", key, member, expiresAt: null, journaledAt: Date.now() };
+  return writeOrJournal(entry, () => getStorageDriver().srem(key, member));
+}
+
+
+// Collection reads replay the journal first; if that fails the store is down
+// and there is no consistent answer to give.
+export async function kvZRangeByScore(key: string, min: number, max: number): Promise<string[]> {
+  if (!(await flushJournal())) throw new StorageUnavailableError(`Pending journal blocks read of ${key}`);
+  return getStorageDriver().zrangeByScore(key, min, max);
+}
+
+
+export async function kvSMembers(key: string): Promise<string[]> {
+  if (!(await flushJournal())) throw new StorageUnavailableError(`Pending journal blocks read of ${key}`);
+  return getStorageDriver().smembers(key);
+}
+
+
+// ---------------------------------------------------------------------------
+// Secondary indexes over guest submissions
+//
+//   idx:checkin                 sorted set, score = check-in time (ms)
+//   idx:checkout                sorted set, score = check-out time (ms)
+//   idx:email:<sha256>          set of submission ids per normalised email
+//   idx:idnum:<sha256>          set of submission ids per normalised ID/passport
+//   idx:property:<propertyId>   set of submission ids per property
+//
+// Lookup values are hashed so raw emails and passport numbers never appear
+// in key names.
+// ---------------------------------------------------------------------------
+
+export interface IndexableSubmission {
+  id: string;
+  propertyId?: string;
+  data: {
+    email: string;
+    idOrPassport: string;
+    checkIn: string;
+    checkOut: string;
+  };
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function normalizeIdNumber(idOrPassport: string): string {
+  return idOrPassport.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+const lookupHash = (value: string) => createHash("sha256").update(value).digest("hex");
+
+const INDEX_CHECKIN = "idx:checkin";
+const INDEX_CHECKOUT = "idx:checkout";
+const emailIndexKey = (email: string) => `idx:email:${lookupHash(normalizeEmail(email))}`;
+const idNumberIndexKey = (id: string) => `idx:idnum:${lookupHash(normalizeIdNumber(id))}`;
+const propertyIndexKey = (propertyId: string) => `idx:property:${propertyId}`;
+
+function toTimestamp(date: string | Date | number): number {
+  const ms = new Date(date).getTime();
+  if (Number.isNaN(ms)) throw new Error(`Invalid date for index: ${date}`);
+  return ms;
+}
+
+export async function indexSubmission(record: IndexableSubmission): Promise<void> {
+  const { id, data } = record;
+  await kvZAdd(INDEX_CHECKIN, toTimestamp(data.checkIn), id);
+  await kvZAdd(INDEX_CHECKOUT, toTimestamp(data.checkOut), id);
+  await kvSAdd(emailIndexKey(data.email), id);
+  await kvSAdd(idNumberIndexKey(data.idOrPassport), id);
+  if (record.propertyId) await kvSAdd(propertyIndexKey(record.propertyId), id);
+}
+
+export async function unindexSubmission(record: IndexableSubmission): Promise<void> {
+  const { id, data } = record;
+  await kvZRem(INDEX_CHECKIN, id);
+  await kvZRem(INDEX_CHECKOUT, id);
+  await kvSRem(emailIndexKey(data.email), id);
+  await kvSRem(idNumberIndexKey(data.idOrPassport), id);
+  if (record.propertyId) await kvSRem(propertyIndexKey(record.propertyId), id);
+}
+
+/** Submission ids with a check-in inside [from, to], earliest first. */
+export function findByCheckInRange(from: string | Date | number, to: string | Date | number) {
+  return kvZRangeByScore(INDEX_CHECKIN, toTimestamp(from), toTimestamp(to));
+}
+
+/** Submission ids with a check-out inside [from, to], earliest first. */
+export function findByCheckOutRange(from: string | Date | number, to: string | Date | number) {
+  return kvZRangeByScore(INDEX_CHECKOUT, toTimestamp(from), toTimestamp(to));
+}
+
+export function findByEmail(email: string) {
+  return kvSMembers(emailIndexKey(email));
+}
+
+export function findByIdOrPassport(idOrPassport: string) {
+  return kvSMembers(idNumberIndexKey(idOrPassport));
+}
+
+export function findByProperty(propertyId: string) {
+  return kvSMembers(propertyIndexKey(propertyId));
+}
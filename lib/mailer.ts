@@ -0,0 +1,53 @@
+// lib/mailer.ts
+
+// Outgoing email. MAIL_DRIVER=console prints messages to the server log for
+// development, and is the default outside production; MAIL_DRIVER=resend
+// sends through the Resend API with RESEND_API_KEY, from MAIL_FROM.
+// Messages carry sign-in codes, so production never falls back to the log:
+// without a real driver configured, sending fails.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export class MailDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MailDeliveryError";
+  }
+}
+
+async function sendWithResend(message: MailMessage) {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.MAIL_FROM;
+  if (!apiKey || !from) throw new MailDeliveryError("RESEND_API_KEY and MAIL_FROM must be set for MAIL_DRIVER=resend");
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ from, to: [message.to], subject: message.subject, text: message.text }),
+  });
+  if (!response.ok) {
+    throw new MailDeliveryError(`Resend rejected the message: ${response.status} ${await response.text()}`);
+  }
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const production = process.env.NODE_ENV === "production";
+  const driver = process.env.MAIL_DRIVER || (production ? "" : "console");
+
+  switch (driver) {
+    case "":
+      throw new MailDeliveryError("MAIL_DRIVER must be set in production");
+    case "console":
+      if (production) throw new MailDeliveryError("MAIL_DRIVER=console is not allowed in production");
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+      return;
+    case "resend":
+      return sendWithResend(message);
+    default:
+      throw new MailDeliveryError(`Unknown MAIL_DRIVER "${driver}"`);
+  }
+}
@@ -0,0 +1,110 @@
+// lib/party.ts
+import { kvDel, kvIncr, kvSAdd, kvSMembers } from "@/lib/kv";
+import { getSubmission } from "@/lib/submissions";
+import { createPartyLinkToken, verifyLinkToken } from "@/lib/signed-links";
+import type { Booking } from "@/lib/bookings";
+import type { SubmissionRecord } from "@/lib/records";
+
+// Co-travellers who register themselves. Instead of entering another guest's
+// details, the lead guest can leave them to fill in a shorter form of their
+// own (their ID, selfie and signature; the stay comes from the lead's
+// registration). Each gets a signed link on the lead guest's success page.
+// Their registration is a record of its own, with `leadId` pointing at the
+// lead's and tied to the same booking. The lead's record lists the
+// invitations under `party`; which have been used is kept in a set of its
+// own, so co-travellers registering at once never overwrite each other.
+
+export interface PartyInvite {
+  id: string;
+  /** The name the lead guest gave. */
+  fullName: string;
+  /** The co-traveller's registration, once they have registered. */
+  registrationId?: string;
+}
+
+export interface PartyProgress {
+  /** Everyone staying: as booked, or as the lead guest said. */
+  size: number;
+  /** Everyone whose details are on a registration. */
+  registered: number;
+}
+
+const claimKey = (leadId: string, inviteId: string) => `party_claim:${leadId}:${inviteId}`;
+// Members are `<inviteId>:<registrationId>`
+const completedKey = (leadId: string) => `party_done:${leadId}`;
+
+export function newPartyInvites(guests: { fullName: string }[]): PartyInvite[] {
+  return guests.map(({ fullName }) => ({ id: crypto.randomUUID(), fullName }));
+}
+
+/** A co-traveller's registration link, signed until the lead guest's check-in. */
+export function partyInvitePath(lead: SubmissionRecord, invite: PartyInvite): string {
+  const token = createPartyLinkToken(lead.id, invite.id, lead.data.checkIn);
+  const form = lead.propertyId ? `/register/${lead.propertyId}` : "/register";
+  return `${form}?party=${lead.id}&guest=${invite.id}&token=${encodeURIComponent(token)}`;
+}
+
+/** The lead guest's invitations, each with the registration that used it. */
+export async function partyInvites(lead: SubmissionRecord): Promise<PartyInvite[]> {
+  if (!lead.party?.length) return [];
+  const completed = new Map(
+    (await kvSMembers(completedKey(lead.id))).map(member => member.split(":") as [string, string])
+  );
+  return lead.party.map(invite => {
+    const registrationId = invite.registrationId ?? completed.get(invite.id);
+    return registrationId ? { ...invite, registrationId } : invite;
+  });
+}
+
+/**
+ * The lead registration and invitation a co-traveller link is for, or null
+ * if the link is invalid or expired or the guest has already registered.
+ */
+export async function partyInviteFromLink(
+  leadId: unknown,
+  inviteId: unknown,
+  token: unknown
+): Promise<{ lead: SubmissionRecord; invite: PartyInvite } | null> {
+  if (typeof leadId !== "string" || typeof inviteId !== "string" || typeof token !== "string") return null;
+  if (!verifyLinkToken(token, `${leadId}:${inviteId}`, ["party"])) return null;
+
+  const lead = await getSubmission(leadId);
+  const invite = lead ? (await partyInvites(lead)).find(invite => invite.id === inviteId) : undefined;
+  return lead && invite && !invite.registrationId ? { lead, invite } : null;
+}
+
+/**
+ * Reserve an invitation for one registration, before it is saved. Two
+ * submissions through the same link can both pass `partyInviteFromLink`;
+ * only the first to claim it may go on.
+ */
+export async function claimPartyInvite(leadId: string, inviteId: string): Promise<boolean> {
+  return (await kvIncr(claimKey(leadId, inviteId))) === 1;
+}
+
+/** Give up a claim whose registration could not be saved, so the link works again. */
+export async function releasePartyInvite(leadId: string, inviteId: string): Promise<void> {
+  await kvDel(claimKey(leadId, inviteId));
+}
+
+/** Mark an invitation as used by the co-traveller's registration. */
+export async function completePartyInvite(leadId: string, inviteId: string, registrationId: string): Promise<void> {
+  await kvSAdd(completedKey(leadId), `${inviteId}:${registrationId}`);
+}
+
+/** How much of the lead guest's own party has registered. */
+export function leadPartyProgress(lead: SubmissionRecord, invites: PartyInvite[]): PartyProgress {
+  const coTravellers = invites.filter(invite => invite.registrationId).length;
+  return { size: lead.data.guests, registered: 1 + lead.data.companions.length + coTravellers };
+}
+
+/** How much of a booking's party has registered, across every registration tied to it. */
+export async function bookingPartyProgress(booking: Booking): Promise<PartyProgress> {
+  const records = await Promise.all(booking.registrationIds.map(id => getSubmission(id)));
+  const registrations = records.filter((record): record is SubmissionRecord => record !== null);
+  const leads = registrations.filter(record => !record.leadId);
+  return {
+    size: booking.guests ?? Math.max(0, ...leads.map(record => record.data.guests)),
+    registered: registrations.reduce((sum, record) => sum + 1 + record.data.companions.length, 0),
+  };
+}
@@ -0,0 +1,72 @@
+// lib/pdf.ts
+import type { PDFDocument, PDFFont, PDFImage } from "pdf-lib";
+import { getBlob, type BlobRef } from "@/lib/blob";
+
+// Helpers shared by the registration PDF and the lodger register PDF.
+
+export const PDF_PRODUCER = "Guest Registration System";
+
+export const LEGAL_NOTICE =
+  "This record is maintained in compliance with the Immigration Act 13 of 2002 and the Protection of Personal " +
+  "Information Act (POPIA). Personal information may be disclosed to authorities when lawfully required.";
+
+/** Title, subject and producer fields of a new document. */
+export function setDocumentInfo(pdf: PDFDocument, title: string, subject: string) {
+  pdf.setTitle(title);
+  pdf.setSubject(subject);
+  pdf.setKeywords(["guest", "registration", "accommodation", "south africa"]);
+  pdf.setProducer(PDF_PRODUCER);
+  pdf.setCreator(PDF_PRODUCER);
+}
+
+/**
+ * The standard fonts only encode WinAnsi, so strip accents from anything
+ * outside Latin-1 and replace what is left with "?". Line breaks become spaces.
+ */
+export function pdfText(value: string): string {
+  return value
+    .replace(/\s+/g, " ")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, char => {
+      const plain = char.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+      return /^[\x20-\x7e\xa0-\xff]+$/.test(plain) ? plain : "?";
+    });
+}
+
+/** Split `text` into lines no wider than `maxWidth`; long words are broken. */
+export function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of pdfText(text).split(" ").filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    // A single word wider than the column: break it by characters
+    line = "";
+    for (const char of word) {
+      if (line && font.widthOfTextAtSize(line + char, size) > maxWidth) {
+        lines.push(line);
+        line = "";
+      }
+      line += char;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [""];
+}
+
+/** Embed a stored PNG or JPEG; null if it is missing or another format. */
+export async function embedImage(pdf: PDFDocument, ref: BlobRef | undefined): Promise<PDFImage | null> {
+  if (!ref) return null;
+  const bytes = await getBlob(ref);
+  if (!bytes) return null;
+
+  if (ref.contentType === "image/png") return pdf.embedPng(bytes);
+  if (ref.contentType === "image/jpeg" || ref.contentType === "image/jpg") return pdf.embedJpg(bytes);
+  return null;
+}
@@ -0,0 +1,140 @@
+// lib/policies.ts
+import { createHash } from "crypto";
+import { kvGet, kvIncr, kvSet } from "@/lib/kv";
+
+// The documents a guest accepts when registering: the privacy notice, the
+// non-refund policy and, if the host publishes them, house rules. Each is
+// versioned; a version never changes once published, and its SHA-256 lets a
+// registration prove exactly which text the guest agreed to.
+//
+//   policy:<kind>:<version>   a published version
+//   policy:<kind>:current     the current version number
+
+export const POLICY_KINDS = ["privacy", "nonRefund", "houseRules"] as const;
+export type PolicyKind = (typeof POLICY_KINDS)[number];
+
+export const POLICY_LABELS: Record<PolicyKind, string> = {
+  privacy: "Privacy notice",
+  nonRefund: "Non-refund policy",
+  houseRules: "House rules",
+};
+
+export interface PolicyVersion {
+  kind: PolicyKind;
+  version: number;
+  title: string;
+  body: string;
+  /** SHA-256 of the title and body (policyHash). */
+  sha256: string;
+  publishedAt: string;
+  publishedBy: string;
+}
+
+/** The parts of a policy the registration form shows (not who published it). */
+export type PolicyText = Pick<PolicyVersion, "kind" | "version" | "title" | "body" | "sha256">;
+
+export function policyText({ kind, version, title, body, sha256 }: PolicyVersion): PolicyText {
+  return { kind, version, title, body, sha256 };
+}
+
+/** What a registration records about each policy the guest accepted. */
+export interface PolicyAcceptance {
+  kind: PolicyKind;
+  version: number;
+  sha256: string;
+  acceptedAt: string;
+}
+
+// The wording the form carried before policies were versioned. Published as
+// version 1 the first time it is needed, so it is frozen from then on.
+const DEFAULT_POLICIES: Partial<Record<PolicyKind, { title: string; body: string }>> = {
+  privacy: {
+    title: "POPIA Consent",
+    body:
+      "I consent to the processing of my personal information in compliance with the Protection of Personal " +
+      "Information Act (POPIA) and acknowledge that it may be shared with authorities under the Immigration Act " +
+      "if lawfully required.",
+  },
+  nonRefund: {
+    title: "Non-Refund Policy",
+    body:
+      "I acknowledge and accept the strict Non-Refund Policy and confirm the check-in/check-out dates and times as " +
+      "stated in my booking confirmation.",
+  },
+};
+
+const versionKey = (kind: PolicyKind, version: number) => `policy:${kind}:${version}`;
+const currentKey = (kind: PolicyKind) => `policy:${kind}:current`;
+// Hands out version numbers, so two publishes at once never share one
+const sequenceKey = (kind: PolicyKind) => `policy:${kind}:sequence`;
+
+export function isPolicyKind(value: unknown): value is PolicyKind {
+  return POLICY_KINDS.includes(value as PolicyKind);
+}
+
+// Line endings and surrounding whitespace don't change a policy
+const normalize = (text: string) => text.replace(/\r\n?/g, "\n").trim();
+
+export function policyHash(title: string, body: string): string {
+  return createHash("sha256").update(`${normalize(title)}\n\n${normalize(body)}`).digest("hex");
+}
+
+export async function getPolicyVersion(kind: PolicyKind, version: number): Promise<PolicyVersion | null> {
+  return kvGet<PolicyVersion>(versionKey(kind, version));
+}
+
+/**
+ * Publish a new version of a policy. Publishing the current text again is a
+ * no-op and returns the current version. A published version is never
+ * overwritten: numbers come from an atomic counter, skipping any already taken
+ * (e.g. versions published before the counter existed).
+ */
+export async function publishPolicy(kind: PolicyKind, title: string, body: string, publishedBy: string): Promise<PolicyVersion> {
+  const sha256 = policyHash(title, body);
+  const current = (await kvGet<number>(currentKey(kind))) ?? 0;
+  if (current > 0) {
+    const existing = await getPolicyVersion(kind, current);
+    if (existing?.sha256 === sha256) return existing;
+  }
+
+  let version = await kvIncr(sequenceKey(kind));
+  while (version <= current || (await getPolicyVersion(kind, version))) version = await kvIncr(sequenceKey(kind));
+
+  const policy: PolicyVersion = {
+    kind,
+    version,
+    title: normalize(title),
+    body: normalize(body),
+    sha256,
+    publishedAt: new Date().toISOString(),
+    publishedBy,
+  };
+  await kvSet(versionKey(kind, policy.version), policy);
+  // A later version published alongside this one stays current
+  if (policy.version > ((await kvGet<number>(currentKey(kind))) ?? 0)) await kvSet(currentKey(kind), policy.version);
+  return policy;
+}
+
+/** The version guests accept now; null if the host hasn't published one. */
+export async function currentPolicy(kind: PolicyKind): Promise<PolicyVersion | null> {
+  const version = await kvGet<number>(currentKey(kind));
+  if (version) return getPolicyVersion(kind, version);
+
+  const fallback = DEFAULT_POLICIES[kind];
+  return fallback ? publishPolicy(kind, fallback.title, fallback.body, "system") : null;
+}
+
+/** The current version of every published policy, in POLICY_KINDS order. */
+export async function currentPolicies(): Promise<PolicyVersion[]> {
+  const policies = await Promise.all(POLICY_KINDS.map(kind => currentPolicy(kind)));
+  return policies.filter((policy): policy is PolicyVersion => policy !== null);
+}
+
+/** Every published version of a policy, newest first. */
+export async function policyHistory(kind: PolicyKind): Promise<PolicyVersion[]> {
+  const current = (await kvGet<number>(currentKey(kind))) ?? 0;
+  const versions = await Promise.all(
+    Array.from({ length: current }, (_, i) => getPolicyVersion(kind, current - i))
+  );
+  return versions.filter((policy): policy is PolicyVersion => policy !== null);
+}
@@ -0,0 +1,143 @@
+// lib/portal.ts
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { findByEmail, findByIdOrPassport, kvDel, kvGet, kvSet, normalizeEmail } from "@/lib/kv";
+import { sendMail } from "@/lib/mailer";
+import { listAuditEvents } from "@/lib/audit";
+import { isBlobRef } from "@/lib/blob";
+import { listRequestsForRecord } from "@/lib/guest-requests";
+import type { SubmissionRecord } from "@/lib/records";
+
+// Guest self-service sign-in. A guest proves who they are with the email and
+// ID/passport number on their registration, then a one-time code sent to that
+// email. The resulting portal session (server-side, `portal_session:<id>`)
+// lists the registrations they may see.
+
+export const PORTAL_COOKIE = "gr_portal";
+export const PORTAL_SESSION_SECONDS = 30 * 60;
+
+const CODE_TTL_SECONDS = 10 * 60;
+const MAX_CODE_ATTEMPTS = 5;
+
+interface PendingCode {
+  codeHash: string;
+  recordIds: string[];
+  attempts: number;
+  /** ms since epoch */
+  expiresAt: number;
+}
+
+export interface PortalSession {
+  id: string;
+  email: string;
+  recordIds: string[];
+  createdAt: string;
+}
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest("hex");
+const codeKey = (email: string) => `portal_otp:${sha256(normalizeEmail(email))}`;
+const sessionKey = (id: string) => `portal_session:${id}`;
+const hashCode = (email: string, code: string) => sha256(`${normalizeEmail(email)}:${code}`);
+
+/**
+ * Email a sign-in code if `email` and `idNumber` belong to the same
+ * registration. Says nothing either way, so the form can't be used to find
+ * out who stayed where.
+ */
+export async function requestPortalCode(email: string, idNumber: string): Promise<void> {
+  const byEmail = new Set(await findByEmail(email));
+  const recordIds = (await findByIdOrPassport(idNumber)).filter(id => byEmail.has(id));
+  if (recordIds.length === 0) return;
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  const pending: PendingCode = {
+    codeHash: hashCode(email, code),
+    recordIds,
+    attempts: 0,
+    expiresAt: Date.now() + CODE_TTL_SECONDS * 1000,
+  };
+  await kvSet(codeKey(email), pending, { ex: CODE_TTL_SECONDS });
+
+  await sendMail({
+    to: normalizeEmail(email),
+    subject: "Your guest registration access code",
+    text: [
+      `Your code is ${code}. It expires in ${CODE_TTL_SECONDS / 60} minutes.`,
+      "",
+      "Use it on the guest portal to see, download or correct your registration, or to ask for it to be erased.",
+      "If you didn't ask for this code you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+/** Exchange a valid code for a new portal session id, or null. */
+export async function verifyPortalCode(email: string, code: string): Promise<string | null> {
+  const key = codeKey(email);
+  const pending = await kvGet<PendingCode>(key);
+  if (!pending || pending.expiresAt <= Date.now()) return null;
+
+  const expected = Buffer.from(pending.codeHash);
+  const actual = Buffer.from(hashCode(email, code.replace(/\s/g, "")));
+  if (!timingSafeEqual(expected, actual)) {
+    // Burn the code after too many guesses; keep the original expiry otherwise
+    const remaining = Math.ceil((pending.expiresAt - Date.now()) / 1000);
+    if (pending.attempts + 1 >= MAX_CODE_ATTEMPTS || remaining <= 0) await kvDel(key);
+    else await kvSet(key, { ...pending, attempts: pending.attempts + 1 }, { ex: remaining });
+    return null;
+  }
+
+  await kvDel(key);
+  const session: PortalSession = {
+    id: randomBytes(32).toString("hex"),
+    email: normalizeEmail(email),
+    recordIds: pending.recordIds,
+    createdAt: new Date().toISOString(),
+  };
+  await kvSet(sessionKey(session.id), session, { ex: PORTAL_SESSION_SECONDS });
+  return session.id;
+}
+
+export async function endPortalSession(id: string): Promise<void> {
+  await kvDel(sessionKey(id));
+}
+
+/** The guest's portal session from the request cookie, if still valid. */
+export async function currentPortalSession(): Promise<PortalSession | null> {
+  const id = (await cookies()).get(PORTAL_COOKIE)?.value;
+  if (!id || !/^[0-9a-f]{64}$/.test(id)) return null;
+  return kvGet<PortalSession>(sessionKey(id));
+}
+
+/**
+ * Everything held about one registration, for a POPIA access request: the
+ * stored fields (images described, not embedded), metadata, retention state,
+ * the guest's own requests and who has accessed the record.
+ */
+export async function buildDataExport(record: SubmissionRecord) {
+  const describe = (value: unknown) =>
+    isBlobRef(value) ? { stored: true, contentType: value.contentType, bytes: value.size } : value;
+  const data: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record.data)) {
+    data[field] = describe(value);
+  }
+  data.companions = record.data.companions.map(companion => ({ ...companion, idImage: describe(companion.idImage) }));
+  if (record.data.custom) data.custom = record.data.custom.map(answer => ({ ...answer, value: describe(answer.value) }));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    id: record.id,
+    submittedAt: new Date(record.createdAt).toISOString(),
+    data,
+    metadata: record.metadata,
+    retention: record.retention ?? null,
+    legalHold: record.legalHold ? { placedAt: record.legalHold.placedAt } : null,
+    requests: await listRequestsForRecord(record.id),
+    accessLog: (await listAuditEvents(record.id)).map(({ at, actor, action, outcome, detail }) => ({
+      at,
+      actor,
+      action,
+      outcome,
+      detail,
+    })),
+  };
+}
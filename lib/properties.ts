@@ -0,0 +1,117 @@
+// lib/properties.ts
+import { z } from "zod";
+import { kvGet, kvSAdd, kvSet, kvSMembers } from "@/lib/kv";
+import { CustomFieldsSchema } from "@/lib/custom-fields";
+
+// The listings guests register for. Each has its own registration URL
+// (/register/<slug>), and its details appear on the guest's success page and
+// registration PDF. Registrations store the slug as `propertyId`.
+//
+//   property:<slug>    the property
+//   properties         set of all slugs
+
+export const DEFAULT_TIMEZONE = "Africa/Johannesburg";
+
+// Slugs that would clash with admin routes under /admin/properties
+const RESERVED_SLUGS = ["new", "save"];
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The wall-clock time at `at` in `timeZone`, written as stay times are (YYYY-MM-DDTHH:mm). */
+export function zonedStayTime(at: Date | number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? "00";
+  return `${part("year")}-${part("month")}-${part("day")}T${part("hour")}:${part("minute")}`;
+}
+
+const timeOfDay = (label: string) =>
+  z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, `${label} must be a time like 14:00`);
+
+export const PropertySchema = z.object({
+  slug: z.string()
+    .trim()
+    .toLowerCase()
+    .min(2, "Slug must be at least 2 characters")
+    .max(64, "Slug must be less than 64 characters")
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug may only contain letters, numbers and single hyphens")
+    .refine(slug => !RESERVED_SLUGS.includes(slug), "That slug is reserved"),
+  name: z.string().trim().min(2, "Name is required").max(100, "Name must be less than 100 characters"),
+  legalEntity: z.string().trim().min(2, "Legal entity is required").max(150, "Legal entity must be less than 150 characters"),
+  address: z.string().trim().min(5, "Address is required").max(300, "Address must be less than 300 characters"),
+  contactEmail: z.string().trim().email("Invalid contact email"),
+  contactPhone: z.string()
+    .trim()
+    .min(6, "Contact phone is required")
+    .max(20, "Contact phone must be less than 20 characters")
+    .regex(/^[\+]?[\d\s\-\(\)]+$/, "Invalid contact phone format"),
+  timezone: z.string().trim().refine(isTimeZone, "Unknown time zone"),
+  checkInFrom: timeOfDay("Check-in time"),
+  checkOutBy: timeOfDay("Check-out time"),
+  /** Shown to guests after registering, e.g. key collection or parking. */
+  checkInInstructions: z.string().trim().max(2000, "Check-in instructions must be less than 2000 characters").optional(),
+  /** The listing's iCalendar export (e.g. Airbnb's), polled for bookings. */
+  icalUrl: z.string().trim().url("Calendar feed must be a URL").regex(/^https?:\/\//, "Calendar feed must be an http(s) URL").optional(),
+  /** Extra questions on this property's registration form. */
+  customFields: CustomFieldsSchema.default([]),
+});
+
+export type PropertyInput = z.infer<typeof PropertySchema>;
+
+export interface Property extends PropertyInput {
+  createdAt: string;
+  updatedAt: string;
+}
+
+const propertyKey = (slug: string) => `property:${slug}`;
+const PROPERTIES_INDEX = "properties";
+
+export async function getProperty(slug: string): Promise<Property | null> {
+  if (!/^[a-z0-9-]{1,64}$/.test(slug)) return null;
+  const property = await kvGet<Property>(propertyKey(slug));
+  // Properties saved before custom fields existed have none
+  return property && { ...property, customFields: property.customFields ?? [] };
+}
+
+/** All properties, by name. */
+export async function listProperties(): Promise<Property[]> {
+  const slugs = await kvSMembers(PROPERTIES_INDEX);
+  const properties = await Promise.all(slugs.map(slug => getProperty(slug)));
+  return properties
+    .filter((property): property is Property => property !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Create or update a property. The slug is its identity and never changes. */
+export async function saveProperty(input: PropertyInput): Promise<Property> {
+  const existing = await getProperty(input.slug);
+  const now = new Date().toISOString();
+  const property: Property = {
+    ...input,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await kvSet(propertyKey(property.slug), property);
+  await kvSAdd(PROPERTIES_INDEX, property.slug);
+  return property;
+}
+
+/** Digits for a wa.me link, e.g. "+27 82 123 4567" -> "27821234567". */
+export function whatsappNumber(phone: string): string {
+  return phone.replace(/\D/g, "");
+}
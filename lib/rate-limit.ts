@@ -0,0 +1,144 @@
+// lib/rate-limit.ts
+import { createHash } from "crypto";
+import { kvGet, kvIncr } from "@/lib/kv";
+
+// Shared rate limiter backed by the storage driver's atomic counters.
+//
+// Each policy limits every key dimension it is given independently (e.g. the
+// same 3-per-15-minutes applies to the client IP, the email and the ID
+// number), and a request is rejected as soon as one of them is over.
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window";
+
+export interface RateLimitPolicy {
+  name: string;
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowSeconds: number;
+  /** What to do when the store can't be reached: allow ("open") or reject ("closed"). */
+  failureMode: "open" | "closed";
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  policy: RateLimitPolicy;
+  limit: number;
+  remaining: number;
+  /** When the limiting window resets (ms since epoch). */
+  resetAt: number;
+  /** The key dimension that was exceeded, if any. */
+  exceededBy?: string;
+  /** True when the store was unavailable and `failureMode` decided. */
+  degraded?: boolean;
+}
+
+export const RATE_LIMIT_POLICIES = {
+  // 3 registrations per 15 minutes per client, email and ID number
+  submit: { name: "submit", algorithm: "sliding-window", limit: 3, windowSeconds: 15 * 60, failureMode: "open" },
+  // 5 staff login attempts per 15 minutes per client and user name; refuse
+  // logins rather than allow guessing while the store is down
+  login: { name: "login", algorithm: "sliding-window", limit: 5, windowSeconds: 15 * 60, failureMode: "closed" },
+  // Guest portal: 5 code requests or code checks per hour per client and email
+  portal: { name: "portal", algorithm: "sliding-window", limit: 5, windowSeconds: 60 * 60, failureMode: "closed" },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+// RATE_LIMIT_FAILURE_MODE=closed makes every policy reject when the store is
+// down; per-policy defaults apply otherwise.
+function resolvePolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[name];
+  const override = process.env.RATE_LIMIT_FAILURE_MODE;
+  return override === "open" || override === "closed" ? { ...policy, failureMode: override } : policy;
+}
+
+// Identifiers can be personal information (emails, passport numbers), so
+// only a hash of them ends up in key names.
+const hashIdentifier = (value: string) => createHash("sha256").update(value.trim().toLowerCase()).digest("hex").slice(0, 32);
+
+async function hit(policy: RateLimitPolicy, dimension: string, identifier: string, now: number) {
+  const windowMs = policy.windowSeconds * 1000;
+  const window = Math.floor(now / windowMs);
+  const base = `rate_limit:${policy.name}:${dimension}:${hashIdentifier(identifier)}`;
+  const resetAt = (window + 1) * windowMs;
+
+  // Keep each window's counter long enough to weigh it into the next one
+  const count = await kvIncr(`${base}:${window}`, policy.windowSeconds * 2);
+
+  if (policy.algorithm === "fixed-window") {
+    return { count, resetAt };
+  }
+
+  // Sliding window: the previous window's count, weighted by how much of it
+  // still overlaps the last `windowSeconds`
+  const previous = (await kvGet<number>(`${base}:${window - 1}`)) ?? 0;
+  const overlap = 1 - (now - window * windowMs) / windowMs;
+  return { count: Math.floor(previous * overlap) + count, resetAt };
+}
+
+/**
+ * Count one request against `policyName` for each provided key dimension
+ * (undefined values are skipped) and report whether it is allowed.
+ */
+export async function checkRateLimit(
+  policyName: RateLimitPolicyName,
+  keys: Record<string, string | undefined>
+): Promise<RateLimitResult> {
+  const policy = resolvePolicy(policyName);
+  const now = Date.now();
+
+  const result: RateLimitResult = {
+    allowed: true,
+    policy,
+    limit: policy.limit,
+    remaining: policy.limit,
+    resetAt: now + policy.windowSeconds * 1000,
+  };
+
+  try {
+    for (const [dimension, identifier] of Object.entries(keys)) {
+      if (!identifier) continue;
+
+      const { count, resetAt } = await hit(policy, dimension, identifier, now);
+      const remaining = Math.max(policy.limit - count, 0);
+      if (remaining <= result.remaining) {
+        result.remaining = remaining;
+        result.resetAt = resetAt;
+      }
+      if (count > policy.limit && result.allowed) {
+        result.allowed = false;
+        result.exceededBy = dimension;
+      }
+    }
+  } catch (error) {
+    console.error(`Rate limiter unavailable (${policy.name}, failing ${policy.failureMode}):`, error);
+    return { ...result, allowed: policy.failureMode === "open", degraded: true };
+  }
+
+  return result;
+}
+
+/** Merge several results for one response: the most restrictive wins. */
+export function combineRateLimits(first: RateLimitResult, ...rest: RateLimitResult[]): RateLimitResult {
+  return rest.reduce((acc, r) => ({
+    ...(r.remaining < acc.remaining || !r.allowed ? r : acc),
+    allowed: acc.allowed && r.allowed,
+    exceededBy: acc.exceededBy ?? r.exceededBy,
+  }), first);
+}
+
+/**
+ * Standard `RateLimit-*` headers (IETF draft) plus `Retry-After` when the
+ * request was rejected.
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 0);
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(resetSeconds),
+    "RateLimit-Policy": `${result.limit};w=${result.policy.windowSeconds}`,
+  };
+  if (!result.allowed) headers["Retry-After"] = String(resetSeconds);
+  return headers;
+}
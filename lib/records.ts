@@ -0,0 +1,176 @@
+// lib/records.ts
+import { isBlobRef, putLegacyDataUrl, type BlobRef } from "@/lib/blob";
+import type { WrappedKey } from "@/lib/encryption";
+import type { LegalHold, RetentionState } from "@/lib/retention";
+import type { Arrival } from "@/lib/arrivals";
+import type { Companion, RegistrationData } from "@/lib/registration";
+import type { PartyInvite } from "@/lib/party";
+import type { CustomAnswer } from "@/lib/custom-fields";
+import type { PolicyAcceptance } from "@/lib/policies";
+
+// The canonical shape of a stored guest registration, and the migrations
+// that bring older stored records up to it.
+//
+// Version history:
+//   1  Original records: no `schemaVersion`, images inline as data URLs,
+//      `metadata` optional.
+//   2  Images are blob references (absent once removed by retention),
+//      `metadata` always present.
+//   3  Per-person party details: `companions` lists every guest besides the
+//      lead guest, and the lead guest has a `dateOfBirth`. Older records
+//      have no companions and no date of birth.
+//
+// When the form gains a field, bump CURRENT_SCHEMA_VERSION and add a
+// migration that fills in a sensible value for records that predate it.
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type ImageField = "selfie" | "idImage" | "signature";
+
+/** A parent's or guardian's consent for a minor in the party, given by the lead guest. */
+export interface GuardianConsent {
+  at: string;
+  /** The lead guest's name as they signed. */
+  by: string;
+  /** SHA-256 of the signature image the consent was given with. */
+  signatureSha256: string;
+}
+
+/**
+ * Another guest in the party, as stored: the ID image is a blob reference
+ * (never required for minors), and minors carry their guardian's relationship
+ * and consent. Records from before minors were distinguished have neither.
+ */
+export type StoredCompanion = Omit<Companion, "idImage" | "guardianConsent"> & {
+  idImage?: BlobRef;
+  guardianConsent?: GuardianConsent;
+};
+
+/**
+ * Registration fields as stored: images are blob references, the rest of
+ * the party is under `companions`, and answers to the property's custom
+ * fields (lib/custom-fields.ts) are under `custom`.
+ */
+export type StoredRegistrationData = Omit<RegistrationData, ImageField | "dateOfBirth" | "companions" | "invitedGuests"> &
+  Partial<Record<ImageField, BlobRef>> & {
+    /** Absent on records from before schema version 3. */
+    dateOfBirth?: string;
+    companions: StoredCompanion[];
+    custom?: CustomAnswer[];
+  };
+
+export interface SubmissionMetadata {
+  userAgent?: string;
+  ip?: string;
+  timestamp: string;
+}
+
+export interface SubmissionRecord {
+  schemaVersion: typeof CURRENT_SCHEMA_VERSION;
+  id: string;
+  createdAt: number;
+  data: StoredRegistrationData;
+  metadata: SubmissionMetadata;
+  /** Slug of the property registered for (lib/properties.ts). */
+  propertyId?: string;
+  /** The booking whose invitation the guest registered through (lib/bookings.ts). */
+  bookingId?: string;
+  /** Guests in the party invited to register themselves (lib/party.ts). */
+  party?: PartyInvite[];
+  /** On a co-traveller's own registration: the lead guest's registration id. */
+  leadId?: string;
+  /** The policy versions the guest accepted (lib/policies.ts). */
+  policies?: PolicyAcceptance[];
+  encryption?: WrappedKey;
+  /** Read from `legal_hold:<id>` by getSubmission; never stored in the record. */
+  legalHold?: LegalHold;
+  retention?: RetentionState;
+  /** Set when staff confirm the guest in person at check-in; read from `arrivals:<id>` by getSubmission. */
+  arrival?: Arrival;
+}
+
+/** Any stored record, whatever version it was written with. */
+export interface VersionedRecord {
+  schemaVersion?: number;
+  id: string;
+  createdAt: number;
+  data: Record<string, unknown>;
+  metadata?: Partial<SubmissionMetadata>;
+  [key: string]: unknown;
+}
+
+interface Migration {
+  from: number;
+  to: number;
+  description: string;
+  up(record: VersionedRecord): Promise<VersionedRecord>;
+}
+
+const migrations: Migration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "Move inline image data URLs into the blob store; always set metadata",
+    async up(record) {
+      const data = { ...record.data };
+      for (const field of ["selfie", "idImage", "signature"] as const) {
+        const value = data[field];
+        if (typeof value === "string" && value.startsWith("data:")) data[field] = await putLegacyDataUrl(value);
+        else if (!isBlobRef(value)) delete data[field];
+      }
+
+      return {
+        ...record,
+        schemaVersion: 2,
+        data,
+        metadata: {
+          ...record.metadata,
+          timestamp: record.metadata?.timestamp ?? new Date(record.createdAt).toISOString(),
+        },
+      };
+    },
+  },
+  {
+    from: 2,
+    to: 3,
+    description: "Add the per-person party list; older records only counted the party",
+    async up(record) {
+      return {
+        ...record,
+        schemaVersion: 3,
+        data: { ...record.data, companions: Array.isArray(record.data.companions) ? record.data.companions : [] },
+      };
+    },
+  },
+];
+
+export function recordVersion(record: { schemaVersion?: number }): number {
+  return record.schemaVersion ?? 1;
+}
+
+export function needsMigration(record: { schemaVersion?: number }): boolean {
+  return recordVersion(record) < CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a (decrypted) record to CURRENT_SCHEMA_VERSION by applying each
+ * migration in turn. Records from a newer version than this code knows are
+ * rejected rather than guessed at.
+ */
+export async function migrateRecord(record: VersionedRecord): Promise<SubmissionRecord> {
+  let current = record;
+  let version = recordVersion(current);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Record ${record.id} has schema version ${version}, newer than supported ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migration = migrations.find(m => m.from === version);
+    if (!migration) throw new Error(`No migration from schema version ${version}`);
+    current = await migration.up(current);
+    version = migration.to;
+  }
+
+  return current as unknown as SubmissionRecord;
+}
@@ -0,0 +1,287 @@
+// lib/register-export.ts
+import { createHash } from "crypto";
+import dayjs from "dayjs";
+import { findByCheckInRange, findByProperty } from "@/lib/kv";
+import { getSubmission } from "@/lib/submissions";
+import { isBlobRef } from "@/lib/blob";
+import { recordAudit, type AuditContext } from "@/lib/audit";
+import { buildXlsx, type CellValue } from "@/lib/xlsx";
+import type { SubmissionRecord } from "@/lib/records";
+import { GUARDIAN_RELATIONSHIP_LABELS } from "@/lib/registration";
+
+// The lodger register as a file: every registration with a check-in in a
+// date range, as CSV, XLSX or JSON. Each row carries a SHA-256 of the stored
+// record so a copy handed to an official can later be checked against the
+// system, and every format ends with a manifest hash over those hashes.
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const DATE_FORMAT = "YYYY-MM-DD";
+export const TIMESTAMP_FORMAT = "YYYY-MM-DD HH:mm:ss";
+
+const formatDate = (value: string | number) => dayjs(value).format(DATE_FORMAT);
+const formatTimestamp = (value: string | number) => dayjs(value).format(TIMESTAMP_FORMAT);
+
+// Images are exported as the SHA-256 of the stored blob, never the image
+const imageRef = (field: "selfie" | "idImage" | "signature") => (record: SubmissionRecord) => {
+  const value = record.data[field];
+  return isBlobRef(value) ? `sha256:${value.sha256}` : "";
+};
+
+// The rest of the party in one cell: "Name (ID, nationality, date of birth[, minor: relationship]); ..."
+const formatCompanions = (record: SubmissionRecord) =>
+  record.data.companions
+    .map(c => {
+      const minor = c.guardianConsent ? `, minor: ${c.guardianRelationship ? GUARDIAN_RELATIONSHIP_LABELS[c.guardianRelationship] : "-"}` : "";
+      return `${c.fullName} (${c.idOrPassport}, ${c.nationality}, ${c.dateOfBirth}${minor})`;
+    })
+    .join("; ");
+
+const COLUMNS = {
+  id: { header: "Registration ID", value: (r: SubmissionRecord): CellValue => r.id },
+  submittedAt: { header: "Submitted", value: (r: SubmissionRecord): CellValue => formatTimestamp(r.createdAt) },
+  fullName: { header: "Full name", value: (r: SubmissionRecord): CellValue => r.data.fullName },
+  idOrPassport: { header: "ID / Passport", value: (r: SubmissionRecord): CellValue => r.data.idOrPassport },
+  nationality: { header: "Nationality", value: (r: SubmissionRecord): CellValue => r.data.nationality },
+  dateOfBirth: { header: "Date of birth", value: (r: SubmissionRecord): CellValue => r.data.dateOfBirth ?? "" },
+  residenceStatus: { header: "Residence status", value: (r: SubmissionRecord): CellValue => r.data.residenceStatus },
+  homeAddress: { header: "Home address", value: (r: SubmissionRecord): CellValue => r.data.homeAddress },
+  phone: { header: "Phone", value: (r: SubmissionRecord): CellValue => r.data.phone },
+  email: { header: "Email", value: (r: SubmissionRecord): CellValue => r.data.email },
+  checkIn: { header: "Check-in", value: (r: SubmissionRecord): CellValue => formatDate(r.data.checkIn) },
+  checkOut: { header: "Check-out", value: (r: SubmissionRecord): CellValue => formatDate(r.data.checkOut) },
+  guests: { header: "Guests", value: (r: SubmissionRecord): CellValue => r.data.guests },
+  companions: { header: "Other guests", value: (r: SubmissionRecord): CellValue => formatCompanions(r) },
+  leadId: { header: "Travelling with", value: (r: SubmissionRecord): CellValue => r.leadId ?? "" },
+  propertyId: { header: "Property", value: (r: SubmissionRecord): CellValue => r.propertyId ?? "" },
+  popiaConsent: { header: "POPIA consent", value: (r: SubmissionRecord): CellValue => r.data.popiaConsent },
+  nonRefundAck: { header: "Non-refund acknowledged", value: (r: SubmissionRecord): CellValue => r.data.nonRefundAck },
+  ip: { header: "Client IP", value: (r: SubmissionRecord): CellValue => r.metadata.ip ?? "" },
+  userAgent: { header: "User agent", value: (r: SubmissionRecord): CellValue => r.metadata.userAgent ?? "" },
+  selfie: { header: "Selfie", value: imageRef("selfie") },
+  idImage: { header: "ID / Passport image", value: imageRef("idImage") },
+  signature: { header: "Signature", value: imageRef("signature") },
+};
+
+export type ExportColumn = keyof typeof COLUMNS;
+export const EXPORT_COLUMNS = Object.keys(COLUMNS) as ExportColumn[];
+export const IMAGE_COLUMNS: readonly ExportColumn[] = ["selfie", "idImage", "signature"];
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS.filter(column => !IMAGE_COLUMNS.includes(column));
+
+export function isExportColumn(value: string): value is ExportColumn {
+  return value in COLUMNS;
+}
+
+export function columnHeader(column: ExportColumn): string {
+  return COLUMNS[column].header;
+}
+
+export interface RegisterQuery {
+  /** Inclusive check-in range (ms since epoch). */
+  from: number;
+  to: number;
+  propertyId?: string;
+  /** Every exported record is audited under this context. */
+  audit: AuditContext;
+}
+
+export interface ExportOptions extends RegisterQuery {
+  format: ExportFormat;
+  columns: ExportColumn[];
+}
+
+export interface ExportFile {
+  body: ReadableStream<Uint8Array> | Blob;
+  contentType: string;
+  filename: string;
+}
+
+export interface ManifestEntry {
+  id: string;
+  sha256: string;
+}
+
+// JSON with sorted keys, so the hash doesn't depend on property order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 over the registration as stored: fields and the rest of the party
+ * (images and uploaded files by blob hash), property, lead guest's
+ * registration, accepted policy versions and submission metadata. Encryption
+ * keys and the party's invitations (marked off as co-travellers register) are
+ * left out, so the hash survives key rotation.
+ */
+export function recordHash(record: SubmissionRecord): string {
+  const stored = (value: unknown) =>
+    isBlobRef(value) ? { sha256: value.sha256, contentType: value.contentType, size: value.size } : value;
+  const data: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record.data)) {
+    data[field] = stored(value);
+  }
+  data.companions = record.data.companions.map(companion => ({ ...companion, idImage: stored(companion.idImage) }));
+  if (record.data.custom) data.custom = record.data.custom.map(answer => ({ ...answer, value: stored(answer.value) }));
+  const canonical = canonicalJson({
+    id: record.id,
+    createdAt: record.createdAt,
+    propertyId: record.propertyId,
+    leadId: record.leadId,
+    policies: record.policies,
+    data,
+    metadata: record.metadata,
+  });
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/** One hash over all entries, to check that none were added or dropped. */
+export function manifestHash(entries: ManifestEntry[]): string {
+  const hash = createHash("sha256");
+  for (const entry of entries) hash.update(`${entry.id}:${entry.sha256}\n`);
+  return hash.digest("hex");
+}
+
+/**
+ * The register entries for `query`, earliest check-in first. Each record is
+ * audited as an `export` with `detail` as it is loaded.
+ */
+export async function* registerRecords(query: RegisterQuery, detail: string): AsyncGenerator<SubmissionRecord> {
+  let ids = await findByCheckInRange(query.from, query.to);
+  if (query.propertyId) {
+    const inProperty = new Set(await findByProperty(query.propertyId));
+    ids = ids.filter(id => inProperty.has(id));
+  }
+
+  for (const id of ids) {
+    const record = await getSubmission(id);
+    if (!record) continue;
+    await recordAudit(query.audit, "export", id, "success", detail);
+    yield record;
+  }
+}
+
+function toStream(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(value));
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+function csvCell(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating a value as a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (cells: CellValue[]) => `${cells.map(csvCell).join(",")}\r\n`;
+
+async function* csvChunks(options: ExportOptions): AsyncGenerator<string> {
+  // BOM so Excel reads the file as UTF-8
+  // The manifest is checked against each row's ID, so it goes in even when
+  // the column wasn't chosen
+  const idColumn = options.columns.includes("id") ? [] : [COLUMNS.id];
+  yield "\uFEFF" + csvLine([...options.columns.map(columnHeader), ...idColumn.map(column => column.header), "Record SHA-256"]);
+  const entries: ManifestEntry[] = [];
+  for await (const record of registerRecords(options, `register:${options.format}`)) {
+    const entry = { id: record.id, sha256: recordHash(record) };
+    entries.push(entry);
+    yield csvLine([
+      ...options.columns.map(column => COLUMNS[column].value(record)),
+      ...idColumn.map(column => column.value(record)),
+      entry.sha256,
+    ]);
+  }
+
+  // The manifest trails the rows, since the file is streamed: a blank line,
+  // then the record count and the hash over every row's record hash
+  yield "\r\n" + csvLine(["Records", entries.length]) + csvLine(["Manifest SHA-256", manifestHash(entries)]);
+}
+
+async function* jsonChunks(options: ExportOptions, exportedAt: string): AsyncGenerator<string> {
+  const header = {
+    exportedAt,
+    from: formatDate(options.from),
+    to: formatDate(options.to),
+    propertyId: options.propertyId ?? null,
+    columns: options.columns,
+  };
+  yield `${JSON.stringify(header).slice(0, -1)},"records":[`;
+
+  const entries: ManifestEntry[] = [];
+  for await (const record of registerRecords(options, `register:${options.format}`)) {
+    const row: Record<string, CellValue> = {};
+    for (const column of options.columns) row[column] = COLUMNS[column].value(record);
+    const entry = { id: record.id, sha256: recordHash(record) };
+    entries.push(entry);
+    yield `${entries.length > 1 ? "," : ""}\n${JSON.stringify({ ...row, sha256: entry.sha256 })}`;
+  }
+
+  yield `\n],"manifest":${JSON.stringify({ count: entries.length, sha256: manifestHash(entries), records: entries })}}\n`;
+}
+
+async function xlsxFile(options: ExportOptions, exportedAt: string): Promise<Blob> {
+  const rows: CellValue[][] = [[...options.columns.map(columnHeader), "Record SHA-256"]];
+  const entries: ManifestEntry[] = [];
+  for await (const record of registerRecords(options, `register:${options.format}`)) {
+    const entry = { id: record.id, sha256: recordHash(record) };
+    entries.push(entry);
+    rows.push([...options.columns.map(column => COLUMNS[column].value(record)), entry.sha256]);
+  }
+
+  const manifest: CellValue[][] = [
+    ["Exported", exportedAt],
+    ["Check-in from", formatDate(options.from)],
+    ["Check-in to", formatDate(options.to)],
+    ["Property", options.propertyId ?? "All"],
+    ["Records", entries.length],
+    ["Manifest SHA-256", manifestHash(entries)],
+    [],
+    ["Registration ID", "Record SHA-256"],
+    ...entries.map(entry => [entry.id, entry.sha256]),
+  ];
+
+  const bytes = buildXlsx([
+    { name: "Register", rows },
+    { name: "Manifest", rows: manifest },
+  ]);
+  return new Blob([new Uint8Array(bytes)], { type: XLSX_CONTENT_TYPE });
+}
+
+/** Build the register export. CSV and JSON are streamed as records load. */
+export async function exportRegister(options: ExportOptions): Promise<ExportFile> {
+  const exportedAt = formatTimestamp(Date.now());
+  const property = options.propertyId ? `${options.propertyId}-` : "";
+  const filename = `guest-register-${property}${formatDate(options.from)}-to-${formatDate(options.to)}.${options.format}`;
+
+  switch (options.format) {
+    case "csv":
+      return { body: toStream(csvChunks(options)), contentType: "text/csv; charset=utf-8", filename };
+    case "json":
+      return { body: toStream(jsonChunks(options, exportedAt)), contentType: "application/json; charset=utf-8", filename };
+    case "xlsx":
+      return {
+        body: await xlsxFile(options, exportedAt),
+        contentType: XLSX_CONTENT_TYPE,
+        filename,
+      };
+  }
+}
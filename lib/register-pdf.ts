@@ -0,0 +1,281 @@
+// lib/register-pdf.ts
+import { PDFDocument, PageSizes, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import dayjs from "dayjs";
+import { embedImage, LEGAL_NOTICE, pdfText, setDocumentInfo, wrapText } from "@/lib/pdf";
+import { getProperty } from "@/lib/properties";
+import { DATE_FORMAT, manifestHash, recordHash, registerRecords, TIMESTAMP_FORMAT, type RegisterQuery } from "@/lib/register-export";
+import type { SubmissionRecord } from "@/lib/records";
+import { GUARDIAN_RELATIONSHIP_LABELS } from "@/lib/registration";
+
+// The bound lodger register for inspections: a cover page, the register as a
+// table over as many pages as it needs, and optionally an appendix with each
+// guest's signature. Every page carries a footer with the period and page
+// number. A4 landscape throughout so the printout binds as one.
+
+export interface RegisterPdfOptions extends RegisterQuery {
+  /** Add an appendix page per six guests with their signatures. */
+  includeSignatures: boolean;
+  /** Shown on the cover, e.g. the staff member who printed it. */
+  generatedBy: string;
+}
+
+// A4 landscape
+const [PAGE_HEIGHT, PAGE_WIDTH] = PageSizes.A4;
+const MARGIN = 36;
+const FOOTER_HEIGHT = 24;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 10;
+const CELL_PADDING = 3;
+
+// One row per lodger: each registration's lead guest (numbered like the
+// signatures), then the rest of their party as n.1, n.2, ...
+interface RegisterRow {
+  number: string;
+  record: SubmissionRecord;
+  person: { fullName: string; idOrPassport: string; nationality: string; dateOfBirth?: string };
+  lead: boolean;
+  /** Minors: the lead guest's relationship to them, as their guardian. */
+  guardian?: string;
+}
+
+function registerRows(records: SubmissionRecord[]): RegisterRow[] {
+  return records.flatMap((record, index) => [
+    { number: String(index + 1), record, person: record.data, lead: true },
+    ...record.data.companions.map((companion, c) => ({
+      number: `${index + 1}.${c + 1}`,
+      record,
+      person: companion,
+      lead: false,
+      ...(companion.guardianConsent && {
+        guardian: companion.guardianRelationship ? GUARDIAN_RELATIONSHIP_LABELS[companion.guardianRelationship] : "guardian",
+      }),
+    })),
+  ]);
+}
+
+const TABLE_COLUMNS: { header: string; width: number; value: (row: RegisterRow) => string }[] = [
+  { header: "#", width: 30, value: row => row.number },
+  { header: "Full name", width: 110, value: row => row.person.fullName },
+  { header: "ID / Passport", width: 80, value: row => row.person.idOrPassport },
+  { header: "Nationality", width: 70, value: row => row.person.nationality },
+  { header: "Date of birth", width: 58, value: row => row.person.dateOfBirth ?? "" },
+  { header: "Residence status", width: 80, value: row => (row.lead ? row.record.data.residenceStatus : "") },
+  {
+    header: "Home address",
+    width: 186,
+    value: row => {
+      if (row.lead) return row.record.data.homeAddress;
+      if (row.guardian) return `Minor, travelling with ${row.record.data.fullName} (${row.guardian.toLowerCase()})`;
+      return `Travelling with ${row.record.data.fullName}`;
+    },
+  },
+  { header: "Check-in", width: 62, value: row => dayjs(row.record.data.checkIn).format(DATE_FORMAT) },
+  { header: "Check-out", width: 62, value: row => dayjs(row.record.data.checkOut).format(DATE_FORMAT) },
+  // A co-traveller's own registration is counted in the lead guest's party
+  { header: "Guests", width: 32, value: row => (row.lead && !row.record.leadId ? String(row.record.data.guests) : "") },
+];
+
+const SIGNATURE_COLUMNS = 3;
+const SIGNATURE_ROWS = 2;
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+const text = (page: PDFPage, value: string, x: number, y: number, font: PDFFont, size = FONT_SIZE) =>
+  page.drawText(pdfText(value), { x, y, size, font, color: rgb(0, 0, 0) });
+
+function drawCover(pdf: PDFDocument, fonts: Fonts, options: RegisterPdfOptions, property: string, records: SubmissionRecord[]) {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN - 40;
+
+  text(page, "Lodger Register", MARGIN, y, fonts.bold, 24);
+  y -= 22;
+  text(page, "Republic of South Africa - Immigration Act 13 of 2002", MARGIN, y, fonts.regular, 11);
+  y -= 40;
+
+  const entries = records.map(record => ({ id: record.id, sha256: recordHash(record) }));
+  const rows: [string, string][] = [
+    ["Property", property],
+    ["Period (check-in)", `${dayjs(options.from).format(DATE_FORMAT)} to ${dayjs(options.to).format(DATE_FORMAT)}`],
+    ["Register entries", String(records.length)],
+    ["Guests", String(records.reduce((sum, record) => sum + (record.leadId ? 0 : record.data.guests), 0))],
+    ["Lodgers listed", String(registerRows(records).length)],
+    ["Generated", `${dayjs().format(TIMESTAMP_FORMAT)} by ${options.generatedBy}`],
+    ["Register SHA-256", manifestHash(entries)],
+  ];
+  for (const [label, value] of rows) {
+    text(page, `${label}:`, MARGIN, y, fonts.bold, 11);
+    text(page, value, MARGIN + 130, y, fonts.regular, 11);
+    y -= 18;
+  }
+
+  y -= 20;
+  for (const line of wrapText(LEGAL_NOTICE, fonts.regular, 10, PAGE_WIDTH - 2 * MARGIN)) {
+    text(page, line, MARGIN, y, fonts.regular, 10);
+    y -= 13;
+  }
+
+  if (options.includeSignatures) {
+    y -= 10;
+    text(page, "Guest signatures follow the register in the appendix, numbered as in the register.", MARGIN, y, fonts.regular, 10);
+  }
+}
+
+function drawTableHeader(page: PDFPage, fonts: Fonts, y: number): number {
+  const height = LINE_HEIGHT + 2 * CELL_PADDING;
+  page.drawRectangle({
+    x: MARGIN,
+    y: y - height,
+    width: PAGE_WIDTH - 2 * MARGIN,
+    height,
+    color: rgb(0.9, 0.9, 0.9),
+  });
+
+  let x = MARGIN;
+  for (const column of TABLE_COLUMNS) {
+    text(page, column.header, x + CELL_PADDING, y - CELL_PADDING - FONT_SIZE, fonts.bold);
+    x += column.width;
+  }
+  return y - height;
+}
+
+function drawTable(pdf: PDFDocument, fonts: Fonts, records: SubmissionRecord[]) {
+  const newPage = () => {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    text(page, "Register", MARGIN, PAGE_HEIGHT - MARGIN - 14, fonts.bold, 14);
+    return { page, y: drawTableHeader(page, fonts, PAGE_HEIGHT - MARGIN - 24) };
+  };
+
+  let { page, y } = newPage();
+  if (records.length === 0) {
+    text(page, "No guests checked in during this period.", MARGIN + CELL_PADDING, y - 16, fonts.regular, 10);
+    return;
+  }
+
+  for (const row of registerRows(records)) {
+    const cells = TABLE_COLUMNS.map(column =>
+      wrapText(column.value(row), fonts.regular, FONT_SIZE, column.width - 2 * CELL_PADDING)
+    );
+    const height = Math.max(...cells.map(lines => lines.length)) * LINE_HEIGHT + 2 * CELL_PADDING;
+
+    if (y - height < MARGIN + FOOTER_HEIGHT) ({ page, y } = newPage());
+
+    let x = MARGIN;
+    cells.forEach((lines, c) => {
+      lines.forEach((line, l) => text(page, line, x + CELL_PADDING, y - CELL_PADDING - FONT_SIZE - l * LINE_HEIGHT, fonts.regular));
+      x += TABLE_COLUMNS[c].width;
+    });
+
+    y -= height;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.75, 0.75, 0.75),
+    });
+  }
+}
+
+async function drawSignatures(pdf: PDFDocument, fonts: Fonts, records: SubmissionRecord[]) {
+  const perPage = SIGNATURE_COLUMNS * SIGNATURE_ROWS;
+  const cellWidth = (PAGE_WIDTH - 2 * MARGIN) / SIGNATURE_COLUMNS;
+  const cellHeight = (PAGE_HEIGHT - 2 * MARGIN - FOOTER_HEIGHT - 30) / SIGNATURE_ROWS;
+  let page: PDFPage | undefined;
+
+  for (const [index, record] of records.entries()) {
+    if (index % perPage === 0) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      text(page, "Appendix: guest signatures", MARGIN, PAGE_HEIGHT - MARGIN - 14, fonts.bold, 14);
+    }
+    if (!page) continue;
+
+    const slot = index % perPage;
+    const x = MARGIN + (slot % SIGNATURE_COLUMNS) * cellWidth;
+    const top = PAGE_HEIGHT - MARGIN - 30 - Math.floor(slot / SIGNATURE_COLUMNS) * cellHeight;
+
+    text(page, `#${index + 1} ${record.data.fullName}`, x, top - 12, fonts.bold, 9);
+    text(page, `Check-in ${dayjs(record.data.checkIn).format(DATE_FORMAT)}`, x, top - 24, fonts.regular);
+
+    const boxWidth = cellWidth - 16;
+    const boxHeight = cellHeight - 48;
+    const boxY = top - 32 - boxHeight;
+    page.drawRectangle({
+      x,
+      y: boxY,
+      width: boxWidth,
+      height: boxHeight,
+      borderColor: rgb(0.75, 0.75, 0.75),
+      borderWidth: 0.5,
+    });
+
+    let image = null;
+    try {
+      image = await embedImage(pdf, record.data.signature);
+    } catch (error) {
+      console.error("Failed to embed signature:", { id: record.id, error });
+    }
+
+    if (image) {
+      const scale = Math.min((boxWidth - 8) / image.width, (boxHeight - 8) / image.height, 1);
+      page.drawImage(image, {
+        x: x + (boxWidth - image.width * scale) / 2,
+        y: boxY + (boxHeight - image.height * scale) / 2,
+        width: image.width * scale,
+        height: image.height * scale,
+      });
+    } else {
+      text(page, "No signature on file", x + 8, boxY + boxHeight / 2, fonts.regular);
+    }
+  }
+}
+
+function drawFooters(pdf: PDFDocument, fonts: Fonts, options: RegisterPdfOptions, property: string) {
+  const pages = pdf.getPages();
+  const label =
+    `Lodger register - ${property} - ` +
+    `${dayjs(options.from).format(DATE_FORMAT)} to ${dayjs(options.to).format(DATE_FORMAT)}`;
+
+  pages.forEach((page, index) => {
+    const y = MARGIN - 10;
+    page.drawLine({
+      start: { x: MARGIN, y: y + 12 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y + 12 },
+      thickness: 0.5,
+      color: rgb(0.75, 0.75, 0.75),
+    });
+    text(page, label, MARGIN, y, fonts.regular);
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    text(page, pageLabel, PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(pageLabel, FONT_SIZE), y, fonts.regular);
+  });
+}
+
+/** Render the register for `options` as PDF bytes. */
+export async function buildRegisterPdf(options: RegisterPdfOptions): Promise<Uint8Array> {
+  const records: SubmissionRecord[] = [];
+  for await (const record of registerRecords(options, "register:pdf")) records.push(record);
+
+  // The property's name, or the filter as given if it isn't a managed property
+  const property = options.propertyId
+    ? (await getProperty(options.propertyId))?.name ?? options.propertyId
+    : "All properties";
+
+  const pdf = await PDFDocument.create();
+  setDocumentInfo(
+    pdf,
+    `Lodger Register ${dayjs(options.from).format(DATE_FORMAT)} to ${dayjs(options.to).format(DATE_FORMAT)}`,
+    "Lodger register"
+  );
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  drawCover(pdf, fonts, options, property, records);
+  drawTable(pdf, fonts, records);
+  if (options.includeSignatures && records.length > 0) await drawSignatures(pdf, fonts, records);
+  drawFooters(pdf, fonts, options, property);
+
+  return pdf.save();
+}
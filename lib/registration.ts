@@ -0,0 +1,218 @@
+// lib/registration.ts
+import { z } from "zod";
+import { IMAGE_UPLOAD_TYPES, isAcceptedUpload } from "@/lib/uploads";
+
+// Server-side validation for the registration form payload. The per-field
+// rules are exported separately so other flows (e.g. guest corrections) can
+// validate single fields the same way.
+export const RegistrationFields = z.object({
+  // Personal Information
+  fullName: z.string()
+    .min(2, "Full name must be at least 2 characters")
+    .max(100, "Full name must be less than 100 characters")
+    .regex(/^[a-zA-Z\s\-'\.]+$/, "Full name contains invalid characters"),
+  
+  idOrPassport: z.string()
+    .min(4, "ID/Passport must be at least 4 characters")
+    .max(20, "ID/Passport must be less than 20 characters")
+    .regex(/^[a-zA-Z0-9\-]+$/, "ID/Passport contains invalid characters"),
+  
+  nationality: z.string()
+    .min(2, "Nationality must be at least 2 characters")
+    .max(50, "Nationality must be less than 50 characters")
+    .regex(/^[a-zA-Z\s]+$/, "Nationality contains invalid characters"),
+  
+  dateOfBirth: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date of birth is required")
+    .refine((date) => {
+      const birth = new Date(`${date}T00:00:00Z`);
+      if (Number.isNaN(birth.getTime()) || !birth.toISOString().startsWith(date)) return false;
+      const age = (Date.now() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+      return age >= 0 && age <= 120;
+    }, "Invalid date of birth"),
+  
+  residenceStatus: z.string()
+    .min(2, "Residence status must be at least 2 characters")
+    .max(100, "Residence status must be less than 100 characters"),
+  
+  homeAddress: z.string()
+    .min(5, "Home address must be at least 5 characters")
+    .max(300, "Home address must be less than 300 characters"),
+  
+  // Contact Information
+  phone: z.string()
+    .min(6, "Phone number must be at least 6 characters")
+    .max(20, "Phone number must be less than 20 characters")
+    .regex(/^[\+]?[\d\s\-\(\)]+$/, "Invalid phone number format"),
+  
+  email: z.string()
+    .email("Invalid email address")
+    .max(100, "Email must be less than 100 characters")
+    .toLowerCase(),
+  
+  // Stay Details
+  checkIn: z.string()
+    .min(4, "Check-in date is required")
+    .refine((date) => {
+      const checkInDate = new Date(date);
+      const now = new Date();
+      return checkInDate > now;
+    }, "Check-in date must be in the future"),
+  
+  checkOut: z.string()
+    .min(4, "Check-out date is required"),
+  
+  guests: z.number()
+    .int("Number of guests must be a whole number")
+    .min(1, "At least 1 guest is required")
+    .max(20, "Maximum 20 guests allowed"),
+  
+  // Image/Document uploads (PNG or JPEG data URLs)
+  selfie: z.string()
+    .min(10, "Selfie is required")
+    .refine(data => isAcceptedUpload(data, IMAGE_UPLOAD_TYPES, 5 * 1024 * 1024),
+      "Selfie must be a PNG or JPEG image (max 5MB)"),
+  
+  idImage: z.string()
+    .min(10, "ID/Passport image is required")
+    .refine(data => isAcceptedUpload(data, IMAGE_UPLOAD_TYPES, 5 * 1024 * 1024),
+      "ID/Passport image must be a PNG or JPEG image (max 5MB)"),
+  
+  signature: z.string()
+    .min(10, "Digital signature is required")
+    .refine(data => isAcceptedUpload(data, IMAGE_UPLOAD_TYPES, 1 * 1024 * 1024),
+      "Invalid signature or file too large (max 1MB)"),
+  
+  // Consent checkboxes
+  popiaConsent: z.literal(true, {
+    errorMap: () => ({ message: "POPIA consent is required" })
+  }),
+  
+  nonRefundAck: z.literal(true, {
+    errorMap: () => ({ message: "Non-refund policy acknowledgment is required" })
+  }),
+});
+
+// Guests younger than this at check-in are minors: they can't register or
+// consent for themselves, so the lead guest registers them as their parent or
+// guardian for the stay and consents on their behalf (POPIA requires a
+// competent person's consent for a child's personal information)
+export const ADULT_AGE = 18;
+
+export const GUARDIAN_RELATIONSHIPS = ["parent", "legal-guardian", "grandparent", "relative", "authorised-adult"] as const;
+export type GuardianRelationship = (typeof GUARDIAN_RELATIONSHIPS)[number];
+
+export const GUARDIAN_RELATIONSHIP_LABELS: Record<GuardianRelationship, string> = {
+  parent: "Parent",
+  "legal-guardian": "Legal guardian",
+  grandparent: "Grandparent",
+  relative: "Other relative",
+  "authorised-adult": "Adult authorised by a parent",
+};
+
+/** Age in whole years on `date` of someone born on `dateOfBirth` (both YYYY-MM-DD, or stay times). */
+export function ageOn(dateOfBirth: string, date: string): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.slice(0, 10).split("-").map(Number);
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  return year - birthYear - (month < birthMonth || (month === birthMonth && day < birthDay) ? 1 : 0);
+}
+
+export const isMinor = (dateOfBirth: string, checkIn: string) => ageOn(dateOfBirth, checkIn) < ADULT_AGE;
+
+// Everyone else in the party: the particulars the lodger register needs for
+// each guest, not just the lead guest
+export const CompanionSchema = RegistrationFields.pick({
+  fullName: true,
+  idOrPassport: true,
+  nationality: true,
+  dateOfBirth: true,
+})
+.extend({
+  // Required for adults only (see partyAgeIssues); a child's ID number is enough
+  idImage: RegistrationFields.shape.idImage.optional(),
+  /** Minors: how the lead guest, their guardian for the stay, is related to them. */
+  guardianRelationship: z.enum(GUARDIAN_RELATIONSHIPS).optional(),
+  /** Minors: the lead guest's consent, as their guardian, to processing their details. */
+  guardianConsent: z.literal(true).optional(),
+});
+
+export type Companion = z.infer<typeof CompanionSchema>;
+
+// A guest the lead guest leaves to register themselves through their own
+// link (lib/party.ts); only their name is known until they do
+export const InvitedGuestSchema = RegistrationFields.pick({ fullName: true });
+
+interface PartyAgeCheck {
+  dateOfBirth: string;
+  checkIn: string;
+  companions: {
+    dateOfBirth?: string;
+    idImage?: string;
+    guardianRelationship?: string;
+    guardianConsent?: boolean;
+    /** Set by the form for guests left to register themselves. */
+    selfRegister?: boolean;
+  }[];
+}
+
+/**
+ * The age rules, shared with the form: whoever fills in the form (lead guest
+ * or co-traveller) must be an adult; adults in the party need an ID image,
+ * children their guardian's relationship and consent instead.
+ */
+export function partyAgeIssues(data: PartyAgeCheck): z.IssueData[] {
+  const issues: z.IssueData[] = [];
+  const issue = (path: (string | number)[], message: string) =>
+    issues.push({ code: z.ZodIssueCode.custom, path, message });
+
+  if (isMinor(data.dateOfBirth, data.checkIn)) {
+    issue(["dateOfBirth"], `The guest registering must be ${ADULT_AGE} or older; children are registered by their parent or guardian`);
+  }
+  data.companions.forEach((companion, index) => {
+    if (companion.selfRegister || !companion.dateOfBirth) return;
+    if (!isMinor(companion.dateOfBirth, data.checkIn)) {
+      if (!companion.idImage) issue(["companions", index, "idImage"], "ID/Passport image is required");
+      return;
+    }
+    if (!companion.guardianRelationship) {
+      issue(["companions", index, "guardianRelationship"], "Please say how you are related to this child");
+    }
+    if (companion.guardianConsent !== true) {
+      issue(["companions", index, "guardianConsent"], "Your consent as their parent or guardian is required");
+    }
+  });
+  return issues;
+}
+
+export const RegistrationSchema = RegistrationFields
+.extend({
+  companions: z.array(CompanionSchema).max(19, "Maximum 20 guests allowed").default([]),
+  invitedGuests: z.array(InvitedGuestSchema).max(19, "Maximum 20 guests allowed").default([]),
+})
+// Cross-field validation
+.refine((data) => data.companions.length + data.invitedGuests.length === data.guests - 1, {
+  message: "Please add the details of every other guest in your party",
+  path: ["companions"]
+})
+.superRefine((data, ctx) => partyAgeIssues(data).forEach(issue => ctx.addIssue(issue)))
+.refine((data) => {
+  const checkIn = new Date(data.checkIn);
+  const checkOut = new Date(data.checkOut);
+  return checkOut > checkIn;
+}, {
+  message: "Check-out date must be after check-in date",
+  path: ["checkOut"]
+})
+.refine((data) => {
+  const checkIn = new Date(data.checkIn);
+  const checkOut = new Date(data.checkOut);
+  const diffTime = Math.abs(checkOut.getTime() - checkIn.getTime());
+  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  return diffDays <= 365; // Maximum 1 year stay
+}, {
+  message: "Stay duration cannot exceed 365 days",
+  path: ["checkOut"]
+});
+
+// Type for validated data
+export type RegistrationData = z.infer<typeof RegistrationSchema>;
@@ -0,0 +1,356 @@
+// lib/retention.ts
+import { z } from "zod";
+import { kvDel, kvGet, kvScan, kvSet, kvZAdd, kvZRangeByScore, unindexSubmission, type IndexableSubmission } from "@/lib/kv";
+import { deleteBlob, isBlobRef, type BlobRef } from "@/lib/blob";
+import { companionIdImages, customFileAnswers, IMAGE_FIELDS, openSubmission } from "@/lib/submissions";
+import type { VersionedRecord } from "@/lib/records";
+import { recordAudit, systemAuditContext } from "@/lib/audit";
+
+// Retention policy for guest registrations.
+//
+// Field rules minimise a record once its purpose is served (e.g. the selfie is
+// only needed around check-in), while `deleteRecord` removes the whole
+// register entry after the statutory period. Records under a legal hold are
+// never touched. Override the defaults with RETENTION_POLICY (JSON).
+//
+//   legal_hold:<id>    a record's legal hold, kept beside the record so that
+//                      placing or lifting one never rewrites the registration
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AnchorSchema = z.enum(["createdAt", "checkIn", "checkOut"]);
+
+const RetentionPolicySchema = z.object({
+  fieldRules: z.array(z.object({
+    id: z.string().min(1),
+    fields: z.array(z.string().min(1)).min(1),
+    anchor: AnchorSchema,
+    afterDays: z.number().int().min(0),
+  })),
+  deleteRecord: z.object({
+    anchor: AnchorSchema,
+    afterDays: z.number().int().min(1),
+  }),
+});
+
+export type RetentionPolicy = z.infer<typeof RetentionPolicySchema>;
+type Anchor = z.infer<typeof AnchorSchema>;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  fieldRules: [
+    { id: "selfie-after-stay", fields: ["selfie"], anchor: "checkOut", afterDays: 30 },
+    { id: "id-image-after-stay", fields: ["idImage"], anchor: "checkOut", afterDays: 90 },
+  ],
+  // Register text fields and the signature stay for the legal period
+  deleteRecord: { anchor: "checkOut", afterDays: 7 * 365 },
+};
+
+export function loadRetentionPolicy(): RetentionPolicy {
+  const raw = process.env.RETENTION_POLICY?.trim();
+  if (!raw) return DEFAULT_RETENTION_POLICY;
+  return RetentionPolicySchema.parse(JSON.parse(raw));
+}
+
+export interface LegalHold {
+  reason: string;
+  placedBy: string;
+  placedAt: string;
+}
+
+export interface RetentionState {
+  /** Fields removed by retention rules, with the rule and time. */
+  minimized: { field: string; rule: string; at: string }[];
+}
+
+// Retention works on records as stored (sealed, any schema version)
+interface RetainedSubmission extends VersionedRecord {
+  retention?: RetentionState;
+}
+
+export interface PurgeAction {
+  recordId: string;
+  action: "minimize" | "delete";
+  rule: string;
+  fields?: string[];
+}
+
+export interface PurgeReport {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  actor: string;
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  scanned: number;
+  actions: PurgeAction[];
+  heldRecordIds: string[];
+  errors: { recordId: string; message: string }[];
+}
+
+const submissionKey = (id: string) => `guest:${id}`;
+const legalHoldKey = (id: string) => `legal_hold:${id}`;
+const arrivalsKey = (id: string) => `arrivals:${id}`;
+const PURGE_REPORTS_INDEX = "purge_reports";
+
+function anchorTime(record: RetainedSubmission, anchor: Anchor): number | null {
+  const value = anchor === "createdAt" ? record.createdAt : record.data[anchor];
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function isDue(record: RetainedSubmission, anchor: Anchor, afterDays: number, now: number): boolean {
+  const start = anchorTime(record, anchor);
+  return start !== null && now >= start + afterDays * DAY_MS;
+}
+
+// Every image and uploaded file a stored record holds
+function recordBlobs(data: Record<string, unknown>): BlobRef[] {
+  return [
+    ...IMAGE_FIELDS.map(field => data[field]),
+    ...companionIdImages(data).map(image => image.value),
+    ...customFileAnswers(data).map(answer => answer.value),
+  ].filter(isBlobRef);
+}
+
+/**
+ * Which records reference each plaintext blob, once per reference. Encrypted
+ * blobs are unique to their record, but plaintext ones are content addressed,
+ * so two records holding the same image share one blob. Built by a scan the
+ * first time a plaintext blob is up for deletion, then kept current as
+ * references are dropped.
+ */
+type BlobOwners = () => Promise<Map<string, string[]>>;
+
+function blobOwners(): BlobOwners {
+  let owners: Promise<Map<string, string[]>> | null = null;
+  return () => (owners ??= scanBlobOwners());
+}
+
+async function scanBlobOwners(): Promise<Map<string, string[]>> {
+  const owners = new Map<string, string[]>();
+  for (const key of await kvScan("guest:*")) {
+    const record = await kvGet<VersionedRecord>(key);
+    if (!record?.data) continue;
+    for (const ref of recordBlobs(record.data)) {
+      if (!ref.encryption) owners.set(ref.sha256, [...(owners.get(ref.sha256) ?? []), record.id]);
+    }
+  }
+  return owners;
+}
+
+// Drop one of the record's references to a blob, deleting the blob once no
+// record references it
+async function deleteFieldBlob(value: unknown, recordId: string, owners: BlobOwners) {
+  if (!isBlobRef(value)) return;
+  if (!value.encryption) {
+    const holders = (await owners()).get(value.sha256) ?? [];
+    const index = holders.indexOf(recordId);
+    if (index !== -1) holders.splice(index, 1);
+    if (holders.length > 0) return;
+  }
+  await deleteBlob(value);
+}
+
+// The rest of the party's ID images go wherever the lead guest's `idImage` goes
+async function removeCompanionIdImages(
+  data: Record<string, unknown>,
+  recordId: string,
+  owners: BlobOwners,
+  dryRun = false
+): Promise<string[]> {
+  const images = companionIdImages(data);
+  if (images.length === 0) return [];
+  if (!dryRun) {
+    for (const image of images) await deleteFieldBlob(image.value, recordId, owners);
+  }
+  data.companions = (data.companions as Record<string, unknown>[]).map(companion => {
+    const remaining = { ...companion };
+    delete remaining.idImage;
+    return remaining;
+  });
+  return images.map(image => `companions.${image.index}.idImage`);
+}
+
+async function deleteRecord(record: RetainedSubmission, owners: BlobOwners) {
+  await unindexSubmission(openSubmission(record) as RetainedSubmission & IndexableSubmission);
+  for (const ref of recordBlobs(record.data)) await deleteFieldBlob(ref, record.id, owners);
+  await kvDel(submissionKey(record.id));
+  await kvDel(arrivalsKey(record.id));
+}
+
+/**
+ * Apply the retention policy to every stored registration and record a
+ * purge report. With `dryRun` nothing is changed, but the report lists what
+ * would have been removed.
+ */
+export async function runRetention(options: { actor: string; dryRun?: boolean; now?: Date }): Promise<PurgeReport> {
+  const policy = loadRetentionPolicy();
+  const now = (options.now ?? new Date()).getTime();
+  const dryRun = options.dryRun ?? false;
+
+  const report: PurgeReport = {
+    id: `${new Date().toISOString()}-${crypto.randomUUID().slice(0, 8)}`,
+    startedAt: new Date().toISOString(),
+    finishedAt: "",
+    actor: options.actor,
+    dryRun,
+    policy,
+    scanned: 0,
+    actions: [],
+    heldRecordIds: [],
+    errors: [],
+  };
+
+  const audit = systemAuditContext(`retention:${options.actor}`);
+  const owners = blobOwners();
+
+  for (const key of await kvScan("guest:*")) {
+    const record = await kvGet<RetainedSubmission>(key);
+    if (!record?.data) continue;
+    report.scanned++;
+
+    // Read per record, just before acting on it, so a hold placed during a run is honoured
+    if (await getLegalHold(record.id)) {
+      report.heldRecordIds.push(record.id);
+      continue;
+    }
+
+    try {
+      if (isDue(record, policy.deleteRecord.anchor, policy.deleteRecord.afterDays, now)) {
+        report.actions.push({ recordId: record.id, action: "delete", rule: "deleteRecord" });
+        if (!dryRun) {
+          await deleteRecord(record, owners);
+          await recordAudit(audit, "delete", record.id, "success", "deleteRecord");
+        }
+        continue;
+      }
+
+      const data = { ...record.data };
+      const minimized = [...(record.retention?.minimized ?? [])];
+      for (const rule of policy.fieldRules) {
+        if (!isDue(record, rule.anchor, rule.afterDays, now)) continue;
+
+        const fields = rule.fields.filter(field => field in data);
+        for (const field of fields) {
+          if (!dryRun) await deleteFieldBlob(data[field], record.id, owners);
+          delete data[field];
+        }
+        if (rule.fields.includes("idImage")) fields.push(...await removeCompanionIdImages(data, record.id, owners, dryRun));
+        if (fields.length === 0) continue;
+
+        report.actions.push({ recordId: record.id, action: "minimize", rule: rule.id, fields });
+        for (const field of fields) minimized.push({ field, rule: rule.id, at: new Date(now).toISOString() });
+      }
+
+      const newlyMinimized = minimized.slice(record.retention?.minimized.length ?? 0);
+      if (!dryRun && newlyMinimized.length > 0) {
+        await kvSet(key, { ...record, data, retention: { minimized } });
+        await recordAudit(audit, "update", record.id, "success", `minimized ${newlyMinimized.map(m => m.field).join(", ")}`);
+      }
+    } catch (error) {
+      console.error(`Retention failed for ${key}:`, error);
+      report.errors.push({ recordId: record.id, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  await kvSet(`purge_report:${report.id}`, report);
+  await kvZAdd(PURGE_REPORTS_INDEX, Date.parse(report.startedAt), report.id);
+  return report;
+}
+
+// What an approved erasure request may remove while the statutory register
+// period is still running: the images that are not part of the register
+// entry (the whole party's ID images included), and any files uploaded to
+// the property's custom fields
+const ERASABLE_DURING_RETENTION = ["selfie", "idImage"];
+
+export type ErasureOutcome =
+  | { outcome: "deleted" }
+  | { outcome: "restricted"; fields: string[]; retainUntil: string }
+  | { outcome: "held"; legalHold: LegalHold }
+  | { outcome: "not_found" };
+
+/**
+ * Carry out a guest's erasure request as far as the law allows. Records
+ * under a legal hold are left alone; records still inside the statutory
+ * period (the policy's `deleteRecord` rule) lose everything that isn't part
+ * of the register and are deleted by the normal purge when the period ends.
+ */
+export async function applyErasure(id: string, actor: string): Promise<ErasureOutcome> {
+  const record = await kvGet<RetainedSubmission>(submissionKey(id));
+  if (!record?.data) return { outcome: "not_found" };
+  const legalHold = await getLegalHold(id);
+  if (legalHold) return { outcome: "held", legalHold };
+
+  const policy = loadRetentionPolicy();
+  const audit = systemAuditContext(actor);
+  const now = Date.now();
+  const owners = blobOwners();
+
+  if (isDue(record, policy.deleteRecord.anchor, policy.deleteRecord.afterDays, now)) {
+    await deleteRecord(record, owners);
+    await recordAudit(audit, "delete", id, "success", "erasure-request");
+    return { outcome: "deleted" };
+  }
+
+  const data = { ...record.data };
+  const minimized = [...(record.retention?.minimized ?? [])];
+  const fields = ERASABLE_DURING_RETENTION.filter(field => field in data);
+  for (const field of fields) {
+    await deleteFieldBlob(data[field], id, owners);
+    delete data[field];
+    minimized.push({ field, rule: "erasure-request", at: new Date(now).toISOString() });
+  }
+  for (const field of await removeCompanionIdImages(data, id, owners)) {
+    fields.push(field);
+    minimized.push({ field, rule: "erasure-request", at: new Date(now).toISOString() });
+  }
+  const files = customFileAnswers(data);
+  if (files.length > 0) {
+    for (const answer of files) {
+      await deleteFieldBlob(answer.value, id, owners);
+      fields.push(`custom.${answer.key}`);
+      minimized.push({ field: `custom.${answer.key}`, rule: "erasure-request", at: new Date(now).toISOString() });
+    }
+    data.custom = (data.custom as { value: unknown }[]).filter(answer => !isBlobRef(answer.value));
+  }
+  if (fields.length > 0) {
+    await kvSet(submissionKey(id), { ...record, data, retention: { minimized } });
+    await recordAudit(audit, "update", id, "success", `erasure-request: minimized ${fields.join(", ")}`);
+  }
+
+  const start = anchorTime(record, policy.deleteRecord.anchor) ?? now;
+  return {
+    outcome: "restricted",
+    fields,
+    retainUntil: new Date(start + policy.deleteRecord.afterDays * DAY_MS).toISOString(),
+  };
+}
+
+/** Purge reports started inside [from, to], oldest first. */
+export async function listPurgeReports(from = 0, to = Date.now()): Promise<PurgeReport[]> {
+  const ids = await kvZRangeByScore(PURGE_REPORTS_INDEX, from, to);
+  const reports = await Promise.all(ids.map(id => kvGet<PurgeReport>(`purge_report:${id}`)));
+  return reports.filter((report): report is PurgeReport => report !== null);
+}
+
+export async function getLegalHold(id: string): Promise<LegalHold | null> {
+  return kvGet<LegalHold>(legalHoldKey(id));
+}
+
+export async function placeLegalHold(id: string, reason: string, placedBy: string): Promise<LegalHold | null> {
+  if (!(await kvGet<RetainedSubmission>(submissionKey(id)))) return null;
+
+  const legalHold: LegalHold = { reason, placedBy, placedAt: new Date().toISOString() };
+  await kvSet(legalHoldKey(id), legalHold);
+  return legalHold;
+}
+
+export async function releaseLegalHold(id: string): Promise<boolean> {
+  if (!(await kvGet<RetainedSubmission>(submissionKey(id)))) return false;
+
+  await kvDel(legalHoldKey(id));
+  return true;
+}
@@ -0,0 +1,80 @@
+// lib/roles.ts
+
+// Staff roles and what each may do. Imported by middleware, so this module
+// must stay free of Node APIs.
+//
+//   owner   everything, including managing other users, properties and policies
+//   cohost  full guest records, documents, PDFs and register exports, check-in,
+//           guest requests, bookings
+//   cleaner arrival and departure times only - never identity documents
+
+export const ROLES = ["owner", "cohost", "cleaner"] as const;
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "arrivals:read"       // check-in/out times, guest counts, property
+  | "registrations:read"  // full guest details and metadata
+  | "documents:read"      // selfie, ID/passport and signature images
+  | "pdf:export"          // registration PDF (contains the ID image)
+  | "register:export"     // the lodger register as CSV/XLSX/JSON
+  | "checkin:confirm"     // verify a guest against their selfie/ID and mark them arrived
+  | "bookings:manage"     // enter reservations and send registration invitations
+  | "requests:review"     // approve guest correction and erasure requests
+  | "properties:manage"   // add and edit listings and their host details
+  | "policies:manage"     // publish new versions of the policies guests accept
+  | "users:manage";
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: [
+    "arrivals:read",
+    "registrations:read",
+    "documents:read",
+    "pdf:export",
+    "register:export",
+    "checkin:confirm",
+    "bookings:manage",
+    "requests:review",
+    "properties:manage",
+    "policies:manage",
+    "users:manage",
+  ],
+  cohost: [
+    "arrivals:read",
+    "registrations:read",
+    "documents:read",
+    "pdf:export",
+    "register:export",
+    "checkin:confirm",
+    "bookings:manage",
+    "requests:review",
+  ],
+  cleaner: ["arrivals:read"],
+};
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function can(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * The permission a request path needs, or null for paths middleware leaves
+ * alone. The PDF and guest images also accept signed links, so their routes
+ * check access themselves (lib/auth.ts `recordAccess`).
+ */
+export function requiredPermission(pathname: string): Permission | null {
+  if (pathname === "/admin/login") return null;
+  if (/^\/admin\/registrations\/[^/]+\/images\//.test(pathname)) return "documents:read";
+  if (pathname.startsWith("/admin/registrations/")) return "registrations:read";
+  if (pathname.startsWith("/admin/checkin/")) return "checkin:confirm";
+  if (pathname.startsWith("/admin/export")) return "register:export";
+  if (pathname.startsWith("/admin/bookings")) return "bookings:manage";
+  if (pathname.startsWith("/admin/requests")) return "requests:review";
+  if (pathname.startsWith("/admin/properties")) return "properties:manage";
+  if (pathname.startsWith("/admin/policies")) return "policies:manage";
+  if (pathname.startsWith("/admin/users")) return "users:manage";
+  if (pathname === "/admin" || pathname.startsWith("/admin/")) return "arrivals:read";
+  return null;
+}
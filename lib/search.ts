@@ -0,0 +1,100 @@
+// lib/search.ts
+import { findByCheckInRange, findByProperty, normalizeIdNumber } from "@/lib/kv";
+import { getSubmission } from "@/lib/submissions";
+import type { SubmissionRecord } from "@/lib/records";
+
+// Listing and searching registrations for the admin area.
+//
+// Candidates come from the check-in index (narrowed by property when given);
+// the remaining filters and the free-text search need the decrypted record,
+// so each candidate is loaded. That is fine at the scale of a host's register
+// but not meant for tens of thousands of rows.
+
+export const STAY_STATUSES = ["upcoming", "in-house", "checked-out", "legal-hold"] as const;
+export type StayStatus = (typeof STAY_STATUSES)[number];
+
+export interface SubmissionFilters {
+  /** Inclusive check-in range (ms since epoch). */
+  checkInFrom?: number;
+  checkInTo?: number;
+  nationality?: string;
+  propertyId?: string;
+  status?: StayStatus;
+  /** Matched against email, and the name and ID/passport number of anyone in the party. */
+  query?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface SubmissionPage {
+  items: SubmissionRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+// The latest time a Date can hold, for open-ended ranges
+const MAX_DATE_MS = 8.64e15;
+
+/** Where the guest is in their stay; records under a legal hold say so first. */
+export function stayStatus(record: SubmissionRecord, now = Date.now()): StayStatus {
+  if (record.legalHold) return "legal-hold";
+  if (now < new Date(record.data.checkIn).getTime()) return "upcoming";
+  if (now < new Date(record.data.checkOut).getTime()) return "in-house";
+  return "checked-out";
+}
+
+// Anyone in the party matches, not just the lead guest
+function matchesQuery(record: SubmissionRecord, query: string): boolean {
+  const text = query.trim().toLowerCase();
+  const { fullName, email, idOrPassport, companions } = record.data;
+  const people = [{ fullName, idOrPassport }, ...companions];
+  if (email.toLowerCase().includes(text) || people.some(person => person.fullName.toLowerCase().includes(text))) return true;
+
+  const idQuery = normalizeIdNumber(query);
+  return idQuery.length > 0 && people.some(person => normalizeIdNumber(person.idOrPassport).includes(idQuery));
+}
+
+function matches(record: SubmissionRecord, filters: SubmissionFilters, now: number): boolean {
+  if (filters.nationality && !record.data.nationality.toLowerCase().includes(filters.nationality.trim().toLowerCase())) {
+    return false;
+  }
+  if (filters.status && stayStatus(record, now) !== filters.status) return false;
+  if (filters.query?.trim() && !matchesQuery(record, filters.query)) return false;
+  return true;
+}
+
+/** Filtered registrations, latest check-in first, one page at a time. */
+export async function searchSubmissions(filters: SubmissionFilters = {}): Promise<SubmissionPage> {
+  const pageSize = Math.min(Math.max(filters.pageSize ?? DEFAULT_PAGE_SIZE, 1), 100);
+  const now = Date.now();
+
+  let ids = await findByCheckInRange(filters.checkInFrom ?? 0, filters.checkInTo ?? MAX_DATE_MS);
+  if (filters.propertyId) {
+    const inProperty = new Set(await findByProperty(filters.propertyId));
+    ids = ids.filter(id => inProperty.has(id));
+  }
+
+  const records: SubmissionRecord[] = [];
+  for (const id of ids.reverse()) {
+    try {
+      const record = await getSubmission(id);
+      if (record && matches(record, filters, now)) records.push(record);
+    } catch (error) {
+      console.error(`Failed to load registration ${id} for search:`, error);
+    }
+  }
+
+  const pageCount = Math.max(Math.ceil(records.length / pageSize), 1);
+  const page = Math.min(Math.max(filters.page ?? 1, 1), pageCount);
+  return {
+    items: records.slice((page - 1) * pageSize, page * pageSize),
+    total: records.length,
+    page,
+    pageSize,
+    pageCount,
+  };
+}
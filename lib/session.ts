@@ -0,0 +1,96 @@
+// lib/session.ts
+import type { Role } from "@/lib/roles";
+
+// Stateless staff sessions: a signed cookie holding the user name, role and
+// expiry. Signed with HMAC-SHA256 (Web Crypto, so middleware can verify it)
+// using SESSION_SECRET.
+
+export const SESSION_COOKIE = "gr_session";
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export interface Session {
+  username: string;
+  role: Role;
+  /** Issued at / expires at, seconds since epoch. */
+  iat: number;
+  exp: number;
+}
+
+export function sessionSecretConfigured(): boolean {
+  return Boolean(process.env.SESSION_SECRET);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET is not configured");
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+export async function createSessionToken(username: string, role: Role): Promise<string> {
+  const iat = Math.floor(Date.now() / 1000);
+  const session: Session = { username, role, iat, exp: iat + SESSION_TTL_SECONDS };
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign("HMAC", await signingKey(), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The session in a cookie value, or null if it is missing, forged or expired. */
+export async function verifySessionToken(token: string | undefined): Promise<Session | null> {
+  if (!token || !sessionSecretConfigured()) return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify("HMAC", await signingKey(), fromBase64Url(signature), new TextEncoder().encode(payload));
+    if (!valid) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session;
+    return session.exp > Date.now() / 1000 ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function sessionCookieOptions(maxAge = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge,
+  };
+}
+
+// Any origin will do: only a path that stays on it is accepted
+const NEXT_BASE = "http://login.invalid";
+
+/**
+ * Where to send a staff member after signing in: the `next` path if it
+ * stays on this site, otherwise the dashboard. Browsers read `\` as `/`
+ * and drop tabs and newlines, so those are refused outright rather than
+ * left for `/\evil.com` to become `//evil.com`.
+ */
+export function safeNextPath(value: unknown): string {
+  if (typeof value !== "string" || !value.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(value)) return "/admin";
+  try {
+    const url = new URL(value, NEXT_BASE);
+    return url.origin === NEXT_BASE ? `${url.pathname}${url.search}${url.hash}` : "/admin";
+  } catch {
+    return "/admin";
+  }
+}
@@ -0,0 +1,96 @@
+// lib/signed-links.ts
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Expiring, HMAC-signed links to a single registration, so access no longer
+// rests on the UUID being unguessable forever.
+//
+//   guest   issued on submission: the success page, PDF and the guest's own
+//           images, for GUEST_LINK_TTL_HOURS (default 72)
+//   invite  a booking invitation (the id is the booking's): registering for
+//           that booking, until its check-out
+//   party   a co-traveller's link (the id is `<lead id>:<invite id>`):
+//           registering as part of the lead guest's party, until check-in
+//
+// Tokens are `<payload>.<signature>` (base64url), signed with
+// LINK_SIGNING_SECRET. Staff with a session don't need one.
+
+export type LinkScope = "guest" | "invite" | "party";
+
+export interface LinkClaims {
+  id: string;
+  scope: LinkScope;
+  /** Expiry, seconds since epoch. */
+  exp: number;
+}
+
+export class LinkTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LinkTokenError";
+  }
+}
+
+function secret(): string {
+  const value = process.env.LINK_SIGNING_SECRET;
+  if (!value) throw new LinkTokenError("LINK_SIGNING_SECRET is not configured");
+  return value;
+}
+
+const sign = (payload: string) => createHmac("sha256", secret()).update(payload).digest("base64url");
+
+export function guestLinkTtlSeconds(): number {
+  const hours = Number(process.env.GUEST_LINK_TTL_HOURS || 72);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 72) * 60 * 60;
+}
+
+/** Sign a link to registration `id`, valid until `expiresAt`. */
+export function createLinkToken(id: string, scope: LinkScope, expiresAt: Date): string {
+  const claims: LinkClaims = { id, scope, exp: Math.floor(expiresAt.getTime() / 1000) };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function createGuestLinkToken(id: string, now = Date.now()): string {
+  return createLinkToken(id, "guest", new Date(now + guestLinkTtlSeconds() * 1000));
+}
+
+/** Invitations last until the booking's check-out. */
+export function createInviteLinkToken(bookingId: string, checkOut: string): string {
+  return createLinkToken(bookingId, "invite", new Date(checkOut));
+}
+
+/** Co-traveller links last until the stay starts; after that the form can't be submitted. */
+export function createPartyLinkToken(leadId: string, inviteId: string, checkIn: string): string {
+  return createLinkToken(`${leadId}:${inviteId}`, "party", new Date(checkIn));
+}
+
+/**
+ * The claims of a token for registration `id` in one of `scopes`, or null if
+ * it is missing, tampered with, expired or for something else.
+ */
+export function verifyLinkToken(token: string | null | undefined, id: string, scopes: LinkScope[]): LinkClaims | null {
+  if (!token) return null;
+
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as LinkClaims;
+    if (claims.id !== id || !scopes.includes(claims.scope)) return null;
+    return claims.exp > Date.now() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Absolute URL for links that leave the browser (QR codes, emails). */
+export function absoluteUrl(path: string): string {
+  return new URL(path, process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000").toString();
+}
+
+export const successPath = (id: string, token: string) => `/success/${id}?token=${encodeURIComponent(token)}`;
+export const pdfPath = (id: string, token: string) => `/api/pdf/${id}?token=${encodeURIComponent(token)}`;
@@ -0,0 +1,57 @@
+// lib/storage/collections.ts
+
+// Sorted sets and sets for drivers without native support. Both are kept as
+// plain JSON values under their key: a sorted set is `{ member: score }`, a
+// set is a string array. Callers are responsible for serialising access.
+
+type SortedSet = Record<string, number>;
+
+interface ValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T): Promise<void>;
+  del(key: string): Promise<void>;
+}
+
+export function createCollectionOps(store: ValueStore) {
+  return {
+    async zadd(key: string, score: number, member: string) {
+      const zset = (await store.get<SortedSet>(key)) || {};
+      zset[member] = score;
+      await store.set(key, zset);
+    },
+
+    async zrem(key: string, member: string) {
+      const zset = await store.get<SortedSet>(key);
+      if (!zset || !(member in zset)) return;
+      delete zset[member];
+      if (Object.keys(zset).length === 0) await store.del(key);
+      else await store.set(key, zset);
+    },
+
+    async zrangeByScore(key: string, min: number, max: number) {
+      const zset = (await store.get<SortedSet>(key)) || {};
+      return Object.entries(zset)
+        .filter(([, score]) => score >= min && score <= max)
+        .sort(([a, sa], [b, sb]) => sa - sb || a.localeCompare(b))
+        .map(([member]) => member);
+    },
+
+    async sadd(key: string, member: string) {
+      const members = (await store.get<string[]>(key)) || [];
+      if (members.includes(member)) return;
+      await store.set(key, [...members, member]);
+    },
+
+    async srem(key: string, member: string) {
+      const members = await store.get<string[]>(key);
+      if (!members || !members.includes(member)) return;
+      const remaining = members.filter(m => m !== member);
+      if (remaining.length === 0) await store.del(key);
+      else await store.set(key, remaining);
+    },
+
+    async smembers(key: string) {
+      return (await store.get<string[]>(key)) || [];
+    },
+  };
+}
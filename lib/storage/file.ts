@@ -0,0 +1,117 @@
+// lib/storage/file.ts
+import { promises as fs } from "fs";
+import path from "path";
+import type { SetOptions, StorageDriver } from "./types";
+import { expiresAtFor, globToRegExp } from "./pattern";
+import { createCollectionOps } from "./collections";
+
+interface Entry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+// Durable single-host store: one JSON file per key under `dir`. Writes go to
+// a temp file first and are renamed into place so a crash never leaves a
+// half-written record behind.
+export function createFileDriver(dir: string): StorageDriver {
+  const root = path.resolve(dir);
+  let ready: Promise<void> | null = null;
+
+  const ensureDir = () => {
+    if (!ready) ready = fs.mkdir(root, { recursive: true }).then(() => undefined);
+    return ready;
+  };
+
+  const fileFor = (key: string) => path.join(root, `${encodeURIComponent(key)}.json`);
+  const keyFor = (file: string) => decodeURIComponent(file.slice(0, -".json".length));
+
+  const read = async (key: string): Promise<Entry | null> => {
+    let raw: string;
+    try {
+      raw = await fs.readFile(fileFor(key), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+
+    const entry = JSON.parse(raw) as Entry;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      await fs.rm(fileFor(key), { force: true });
+      return null;
+    }
+    return entry;
+  };
+
+  // Collection updates are read-modify-write, so serialise them per key
+  const locks = new Map<string, Promise<unknown>>();
+  const withLock = <R>(key: string, fn: () => Promise<R>): Promise<R> => {
+    const previous = locks.get(key) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    locks.set(key, next);
+    next.finally(() => {
+      if (locks.get(key) === next) locks.delete(key);
+    }).catch(() => undefined);
+    return next;
+  };
+
+  const store = {
+    async get<T>(key: string) {
+      await ensureDir();
+      const entry = await read(key);
+      return entry ? (entry.value as T) : null;
+    },
+
+    async set<T>(key: string, value: T, options?: SetOptions) {
+      await ensureDir();
+      const entry: Entry = { value, expiresAt: expiresAtFor(options?.ex) };
+      const target = fileFor(key);
+      const temp = `${target}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+      const handle = await fs.open(temp, "w");
+      try {
+        await handle.writeFile(JSON.stringify(entry));
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(temp, target);
+    },
+
+    async del(key: string) {
+      await ensureDir();
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+
+  const collections = createCollectionOps(store);
+
+  return {
+    name: "file",
+    ...store,
+
+    incr: (key, ex) => withLock(key, async () => {
+      await ensureDir();
+      const entry = await read(key);
+      const count = (typeof entry?.value === "number" ? entry.value : 0) + 1;
+      const remaining = entry?.expiresAt ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : ex;
+      await store.set(key, count, { ex: remaining });
+      return count;
+    }),
+
+    zadd: (key, score, member) => withLock(key, () => collections.zadd(key, score, member)),
+    zrem: (key, member) => withLock(key, () => collections.zrem(key, member)),
+    zrangeByScore: (key, min, max) => collections.zrangeByScore(key, min, max),
+    sadd: (key, member) => withLock(key, () => collections.sadd(key, member)),
+    srem: (key, member) => withLock(key, () => collections.srem(key, member)),
+    smembers: key => collections.smembers(key),
+
+    async *scan(pattern: string) {
+      await ensureDir();
+      const matcher = globToRegExp(pattern);
+      for (const file of await fs.readdir(root)) {
+        if (!file.endsWith(".json")) continue;
+        const key = keyFor(file);
+        if (matcher.test(key) && (await read(key))) yield key;
+      }
+    },
+  };
+}
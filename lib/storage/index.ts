@@ -0,0 +1,42 @@
+// lib/storage/index.ts
+import type { StorageDriver, StorageDriverName } from "./types";
+import { createMemoryDriver } from "./memory";
+import { createFileDriver } from "./file";
+import { createVercelKvDriver } from "./vercel-kv";
+
+export type { SetOptions, StorageDriver, StorageDriverName } from "./types";
+export { createMemoryDriver, createFileDriver, createVercelKvDriver };
+
+const DRIVER_NAMES: StorageDriverName[] = ["vercel-kv", "memory", "file"];
+
+// STORAGE_DRIVER picks the backend explicitly. Without it we use Vercel KV
+// when its credentials are present and the local file store otherwise, so a
+// plain `npm run dev` keeps registrations across restarts.
+export function resolveDriverName(env: NodeJS.ProcessEnv = process.env): StorageDriverName {
+  const configured = env.STORAGE_DRIVER?.trim().toLowerCase();
+  if (configured) {
+    if (!DRIVER_NAMES.includes(configured as StorageDriverName)) {
+      throw new Error(`Unknown STORAGE_DRIVER "${configured}". Expected one of: ${DRIVER_NAMES.join(", ")}`);
+    }
+    return configured as StorageDriverName;
+  }
+  return env.KV_REST_API_URL ? "vercel-kv" : "file";
+}
+
+export function createDriver(name: StorageDriverName, env: NodeJS.ProcessEnv = process.env): StorageDriver {
+  switch (name) {
+    case "vercel-kv":
+      return createVercelKvDriver();
+    case "memory":
+      return createMemoryDriver();
+    case "file":
+      return createFileDriver(env.STORAGE_FILE_DIR || ".data/store");
+  }
+}
+
+let driver: StorageDriver | null = null;
+
+export function getStorageDriver(): StorageDriver {
+  if (!driver) driver = createDriver(resolveDriverName());
+  return driver;
+}
@@ -0,0 +1,63 @@
+// lib/storage/memory.ts
+import type { SetOptions, StorageDriver } from "./types";
+import { expiresAtFor, globToRegExp } from "./pattern";
+import { createCollectionOps } from "./collections";
+
+interface Entry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+// Process-local store. Data is lost on restart, so only use it for
+// development and tests.
+export function createMemoryDriver(): StorageDriver {
+  const entries = new Map<string, Entry>();
+
+  const read = (key: string): Entry | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const store = {
+    async get<T>(key: string) {
+      const entry = read(key);
+      // Hand out copies so callers can't mutate stored state by reference
+      return entry ? (structuredClone(entry.value) as T) : null;
+    },
+
+    async set<T>(key: string, value: T, options?: SetOptions) {
+      entries.set(key, { value: structuredClone(value), expiresAt: expiresAtFor(options?.ex) });
+    },
+
+    async del(key: string) {
+      entries.delete(key);
+    },
+  };
+
+  return {
+    name: "memory",
+    ...store,
+
+    // No await between read and write, so this is atomic within the process
+    async incr(key: string, ex?: number) {
+      const entry = read(key);
+      const count = (typeof entry?.value === "number" ? entry.value : 0) + 1;
+      entries.set(key, { value: count, expiresAt: entry ? entry.expiresAt : expiresAtFor(ex) });
+      return count;
+    },
+
+    ...createCollectionOps(store),
+
+    async *scan(pattern: string) {
+      const matcher = globToRegExp(pattern);
+      for (const key of Array.from(entries.keys())) {
+        if (matcher.test(key) && read(key)) yield key;
+      }
+    },
+  };
+}
@@ -0,0 +1,15 @@
+// lib/storage/pattern.ts
+
+// Convert a Redis-style glob (`guest:*`) to an anchored RegExp for the
+// drivers that have to filter keys themselves.
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+export function expiresAtFor(ex?: number): number | null {
+  return ex && ex > 0 ? Date.now() + ex * 1000 : null;
+}
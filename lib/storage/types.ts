@@ -0,0 +1,35 @@
+// lib/storage/types.ts
+
+export interface SetOptions {
+  /** Time-to-live in seconds. Omit to keep the value until it is deleted. */
+  ex?: number;
+}
+
+/**
+ * Minimal key/value contract every storage backend implements. Values are
+ * JSON-serialisable; keys are colon-separated strings such as `guest:<uuid>`.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options?: SetOptions): Promise<void>;
+  del(key: string): Promise<void>;
+  /**
+   * Atomically increment an integer counter, creating it at 1. `ex` (seconds)
+   * is applied when the counter is created.
+   */
+  incr(key: string, ex?: number): Promise<number>;
+  /** Iterate over keys matching a glob-style pattern (only `*` is supported). */
+  scan(pattern: string): AsyncIterable<string>;
+
+  // Sorted sets (members ordered by numeric score) and plain sets, used for
+  // secondary indexes.
+  zadd(key: string, score: number, member: string): Promise<void>;
+  zrem(key: string, member: string): Promise<void>;
+  zrangeByScore(key: string, min: number, max: number): Promise<string[]>;
+  sadd(key: string, member: string): Promise<void>;
+  srem(key: string, member: string): Promise<void>;
+  smembers(key: string): Promise<string[]>;
+}
+
+export type StorageDriverName = "vercel-kv" | "memory" | "file";
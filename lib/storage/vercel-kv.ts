@@ -0,0 +1,66 @@
+// lib/storage/vercel-kv.ts
+import { kv } from "@vercel/kv";
+import type { SetOptions, StorageDriver } from "./types";
+
+// Vercel KV (Upstash Redis). Credentials come from KV_REST_API_URL and
+// KV_REST_API_TOKEN, read lazily by the `kv` client.
+export function createVercelKvDriver(): StorageDriver {
+  return {
+    name: "vercel-kv",
+
+    async get<T>(key: string) {
+      return kv.get<T>(key);
+    },
+
+    async set<T>(key: string, value: T, options?: SetOptions) {
+      if (options?.ex && options.ex > 0) {
+        await kv.set(key, value, { ex: options.ex });
+      } else {
+        await kv.set(key, value);
+      }
+    },
+
+    async del(key: string) {
+      await kv.del(key);
+    },
+
+    async incr(key: string, ex?: number) {
+      const count = await kv.incr(key);
+      if (count === 1 && ex && ex > 0) await kv.expire(key, ex);
+      return count;
+    },
+
+    async *scan(pattern: string) {
+      let cursor = 0;
+      do {
+        const [next, keys] = await kv.scan(cursor, { match: pattern, count: 100 });
+        cursor = Number(next);
+        yield* keys;
+      } while (cursor !== 0);
+    },
+
+    async zadd(key: string, score: number, member: string) {
+      await kv.zadd(key, { score, member });
+    },
+
+    async zrem(key: string, member: string) {
+      await kv.zrem(key, member);
+    },
+
+    async zrangeByScore(key: string, min: number, max: number) {
+      return kv.zrange<string[]>(key, min, max, { byScore: true });
+    },
+
+    async sadd(key: string, member: string) {
+      await kv.sadd(key, member);
+    },
+
+    async srem(key: string, member: string) {
+      await kv.srem(key, member);
+    },
+
+    async smembers(key: string) {
+      return kv.smembers<string[]>(key);
+    },
+  };
+}
@@ -0,0 +1,241 @@
+// lib/submissions.ts
+import { indexSubmission, kvGet, kvScan, kvSet, kvSMembers, type IndexableSubmission, type WriteResult } from "@/lib/kv";
+import { isBlobRef, putLegacyDataUrl, reencryptBlobRef, type BlobRef } from "@/lib/blob";
+import {
+  decryptField,
+  encryptField,
+  encryptionEnabled,
+  generateDataKey,
+  isEncryptedField,
+  rewrapDataKey,
+  unwrapDataKey,
+  type WrappedKey,
+} from "@/lib/encryption";
+import { migrateRecord, needsMigration, type SubmissionRecord, type VersionedRecord } from "@/lib/records";
+import type { CustomAnswer } from "@/lib/custom-fields";
+import type { LegalHold } from "@/lib/retention";
+import type { Arrival } from "@/lib/arrivals";
+
+// Guest submissions as stored under `guest:<id>`. Text fields listed in
+// ENCRYPTED_FIELDS (and COMPANION_ENCRYPTED_FIELDS for the rest of the party)
+// are sealed with the record's data key; images are encrypted separately by
+// the blob store. Records have no TTL: deletion is
+// left to the retention runner (lib/retention.ts) so legal holds are honoured.
+
+export const ENCRYPTED_FIELDS = ["idOrPassport", "homeAddress"] as const;
+export const COMPANION_ENCRYPTED_FIELDS = ["idOrPassport"] as const;
+export const IMAGE_FIELDS = ["selfie", "idImage", "signature"] as const;
+
+export interface StoredSubmission {
+  id: string;
+  createdAt: number;
+  data: object;
+  encryption?: WrappedKey;
+}
+
+const submissionKey = (id: string) => `guest:${id}`;
+const legalHoldKey = (id: string) => `legal_hold:${id}`;
+// Members are JSON Arrivals
+const arrivalsKey = (id: string) => `arrivals:${id}`;
+
+/** Custom field answers that hold an uploaded file; like images, they live in the blob store. */
+export function customFileAnswers(data: object): (CustomAnswer & { value: BlobRef })[] {
+  const custom = (data as { custom?: unknown }).custom;
+  if (!Array.isArray(custom)) return [];
+  return custom.filter((answer): answer is CustomAnswer & { value: BlobRef } => isBlobRef(answer?.value));
+}
+
+/** The party's ID images, by position in `companions`; like the lead guest's, they live in the blob store. */
+export function companionIdImages(data: object): { index: number; value: BlobRef }[] {
+  const companions = (data as { companions?: unknown }).companions;
+  if (!Array.isArray(companions)) return [];
+  return companions.flatMap((companion, index) => (isBlobRef(companion?.idImage) ? [{ index, value: companion.idImage }] : []));
+}
+
+function mapFields(
+  source: Record<string, unknown>,
+  fields: readonly string[],
+  transform: (value: unknown) => unknown
+): Record<string, unknown> {
+  const result = { ...source };
+  for (const field of fields) {
+    if (field in result) result[field] = transform(result[field]);
+  }
+  return result;
+}
+
+// Apply `transform` to every sealed field, the party's included
+function mapSealedFields(data: object, transform: (value: unknown) => unknown): Record<string, unknown> {
+  const result = mapFields(data as Record<string, unknown>, ENCRYPTED_FIELDS, transform);
+  if (Array.isArray(result.companions)) {
+    result.companions = result.companions.map(companion => mapFields(companion, COMPANION_ENCRYPTED_FIELDS, transform));
+  }
+  return result;
+}
+
+export function sealSubmission<T extends StoredSubmission>(record: T): T {
+  if (!encryptionEnabled() || record.encryption) return record;
+
+  const { key, wrapped } = generateDataKey();
+  const data = mapSealedFields(record.data, value => (typeof value === "string" ? encryptField(key, value) : value));
+  return { ...record, data, encryption: wrapped };
+}
+
+export function openSubmission<T extends StoredSubmission>(record: T): T {
+  if (!record.encryption) return record;
+
+  const key = unwrapDataKey(record.encryption);
+  const data = mapSealedFields(record.data, value => (isEncryptedField(value) ? decryptField(key, value) : value));
+  const opened = { ...record, data };
+  delete opened.encryption;
+  return opened;
+}
+
+/** Store a new submission (sealed) and index it by its plaintext fields. */
+export async function saveSubmission(record: SubmissionRecord): Promise<WriteResult> {
+  const stored = { ...record };
+  delete stored.legalHold;
+  delete stored.arrival;
+  const write = await kvSet(submissionKey(record.id), sealSubmission(stored));
+
+  // The record itself is saved at this point; a missing index entry can be
+  // recreated with POST /api/admin/indexes, so don't fail the guest over it
+  try {
+    await indexSubmission(record);
+  } catch (error) {
+    console.error("Failed to index guest registration:", { id: record.id, error });
+  }
+
+  return write;
+}
+
+// Legal holds (lib/retention.ts) and arrivals (lib/arrivals.ts) are kept
+// under their own keys, so recording one never rewrites the registration and
+// can't be lost to another write of it. The earliest arrival stands.
+async function withStayState(record: SubmissionRecord): Promise<SubmissionRecord> {
+  const [legalHold, arrivals] = await Promise.all([
+    kvGet<LegalHold>(legalHoldKey(record.id)),
+    kvSMembers(arrivalsKey(record.id)),
+  ]);
+  const arrival = arrivals
+    .map(member => JSON.parse(member) as Arrival)
+    .sort((a, b) => a.at.localeCompare(b.at))[0];
+  return { ...record, ...(legalHold && { legalHold }), ...(arrival && { arrival }) };
+}
+
+/**
+ * Load a submission with its encrypted fields decrypted, upgraded to the
+ * current schema version, with its legal hold and arrival if it has them. Upgraded
+ * records are written back so migrations run once per record.
+ */
+export async function getSubmission(id: string): Promise<SubmissionRecord | null> {
+  const stored = await kvGet<VersionedRecord>(submissionKey(id));
+  if (!stored) return null;
+
+  const opened = openSubmission(stored);
+  if (!needsMigration(opened)) return withStayState(opened as unknown as SubmissionRecord);
+
+  const migrated = await migrateRecord(opened);
+  await kvSet(submissionKey(id), sealSubmission(migrated));
+  return withStayState(migrated);
+}
+
+export interface MigrationReport {
+  scanned: number;
+  migrated: number;
+  failed: string[];
+}
+
+/** Upgrade every stored submission to the current schema version. */
+export async function migrateAllSubmissions(): Promise<MigrationReport> {
+  const report: MigrationReport = { scanned: 0, migrated: 0, failed: [] };
+
+  for (const key of await kvScan("guest:*")) {
+    report.scanned++;
+    try {
+      const stored = await kvGet<VersionedRecord>(key);
+      if (!stored?.data || !needsMigration(stored)) continue;
+
+      const migrated = await migrateRecord(openSubmission(stored));
+      await kvSet(key, sealSubmission(migrated));
+      report.migrated++;
+    } catch (error) {
+      console.error(`Migration failed for ${key}:`, error);
+      report.failed.push(key);
+    }
+  }
+
+  return report;
+}
+
+/** Re-create every index entry from the stored `guest:*` records. */
+export async function rebuildIndexes(): Promise<number> {
+  let indexed = 0;
+  for (const key of await kvScan("guest:*")) {
+    const stored = await kvGet<StoredSubmission & IndexableSubmission>(key);
+    if (!stored?.data) continue;
+    await indexSubmission(openSubmission(stored));
+    indexed++;
+  }
+  return indexed;
+}
+
+export interface RotationReport {
+  scanned: number;
+  rewrapped: number;
+  encrypted: number;
+  failed: string[];
+}
+
+/**
+ * Bring every stored submission under the active master key. Records that
+ * are already encrypted only get their data keys re-wrapped; plaintext
+ * records (written before encryption was enabled) are sealed, and their
+ * images moved into encrypted blobs.
+ */
+export async function rotateEncryptionKeys(): Promise<RotationReport> {
+  if (!encryptionEnabled()) throw new Error("ENCRYPTION_KEYS is not configured");
+
+  const report: RotationReport = { scanned: 0, rewrapped: 0, encrypted: 0, failed: [] };
+
+  for (const key of await kvScan("guest:*")) {
+    report.scanned++;
+    try {
+      const stored = await kvGet<StoredSubmission>(key);
+      if (!stored?.data) continue;
+
+      const data: Record<string, unknown> = { ...stored.data };
+      for (const field of IMAGE_FIELDS) {
+        const value = data[field];
+        if (typeof value === "string" && value.startsWith("data:")) data[field] = await putLegacyDataUrl(value);
+        else if (isBlobRef(value)) data[field] = await reencryptBlobRef(value);
+      }
+      if (companionIdImages(data).length > 0) {
+        data.companions = await Promise.all((data.companions as Record<string, unknown>[]).map(async companion =>
+          isBlobRef(companion.idImage) ? { ...companion, idImage: await reencryptBlobRef(companion.idImage) } : companion
+        ));
+      }
+      if (customFileAnswers(data).length > 0) {
+        data.custom = await Promise.all((data.custom as CustomAnswer[]).map(async answer =>
+          isBlobRef(answer.value) ? { ...answer, value: await reencryptBlobRef(answer.value) } : answer
+        ));
+      }
+
+      let updated: StoredSubmission;
+      if (stored.encryption) {
+        updated = { ...stored, data, encryption: rewrapDataKey(stored.encryption) };
+        report.rewrapped++;
+      } else {
+        updated = sealSubmission({ ...stored, data });
+        report.encrypted++;
+      }
+
+      await kvSet(key, updated);
+    } catch (error) {
+      console.error(`Key rotation failed for ${key}:`, error);
+      report.failed.push(key);
+    }
+  }
+
+  return report;
+}
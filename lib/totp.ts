@@ -0,0 +1,83 @@
+// lib/totp.ts
+import { createHmac, randomBytes } from "crypto";
+
+// Time-based one-time passwords (RFC 6238: HMAC-SHA1, 6 digits, 30 s steps),
+// compatible with Google Authenticator, 1Password, Authy and friends.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** A new random secret, base32 encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+function codeForStep(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * The step a code is valid for (allowing one step of clock drift either
+ * way), or null. Callers store the step to reject replays.
+ */
+export function verifyTotp(secret: string, code: string, now = Date.now()): number | null {
+  const candidate = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(candidate)) return null;
+
+  const current = totpStep(now);
+  for (const step of [current - 1, current, current + 1]) {
+    if (codeForStep(secret, step) === candidate) return step;
+  }
+  return null;
+}
+
+/** otpauth:// URI to show as a QR code or paste into an authenticator app. */
+export function totpUri(secret: string, account: string, issuer = "Guest Registration"): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+}
@@ -0,0 +1,36 @@
+// lib/uploads.ts
+
+// The file types guests may upload, checked against the file's leading bytes
+// as well as the type the browser declared. Uploads are served back from the
+// app's own origin, so anything a browser would run (SVG, HTML) is refused.
+// Shared by the form and the server, so this module must stay safe to import
+// from client components.
+
+/** Photos: ID documents, selfies and the drawn signature. */
+export const IMAGE_UPLOAD_TYPES = ["image/png", "image/jpeg"] as const;
+
+// The base64 of each type's magic bytes: \x89PNG\r\n\x1a\n, \xff\xd8\xff, %PDF
+const SIGNATURES: Record<string, string> = {
+  "image/png": "iVBORw0KGg",
+  "image/jpeg": "/9j/",
+  "application/pdf": "JVBER",
+};
+
+export interface ParsedUpload {
+  contentType: string;
+  base64: string;
+}
+
+/** Split a `data:<mime>;base64,...` URL, or null unless it is one of the accepted types. */
+export function parseUpload(dataUrl: string, accept: readonly string[]): ParsedUpload | null {
+  const match = /^data:([^;,]+);base64,(.+)$/.exec(dataUrl);
+  if (!match || !accept.includes(match[1])) return null;
+  const [, contentType, base64] = match;
+  return SIGNATURES[contentType] && base64.startsWith(SIGNATURES[contentType]) ? { contentType, base64 } : null;
+}
+
+/** An upload of an accepted type, no larger than `maxBytes` once decoded. */
+export function isAcceptedUpload(dataUrl: string, accept: readonly string[], maxBytes: number): boolean {
+  const upload = parseUpload(dataUrl, accept);
+  return upload !== null && (upload.base64.length * 3) / 4 <= maxBytes;
+}
@@ -0,0 +1,128 @@
+// lib/users.ts
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import { kvGet, kvScan, kvSet } from "@/lib/kv";
+import { verifyTotp } from "@/lib/totp";
+import type { Role } from "@/lib/roles";
+
+// Staff accounts, stored under `user:<username>`. Passwords are hashed with
+// scrypt; the hash string carries its parameters so they can be raised later
+// without invalidating existing accounts.
+
+export interface User {
+  username: string;
+  role: Role;
+  passwordHash: string;
+  /** Base32 TOTP secret; when set, logging in needs a code as well. */
+  totpSecret?: string;
+  /** Last TOTP step accepted, so a code can't be used twice. */
+  totpLastStep?: number;
+  disabled?: boolean;
+  createdAt: string;
+}
+
+export type AuthResult =
+  | { status: "ok"; user: User }
+  | { status: "invalid" }
+  | { status: "totp_required" };
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const userKey = (username: string) => `user:${username}`;
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+function scryptAsync(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scryptAsync(password, salt, KEY_LENGTH, { N, r, p });
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return timingSafeEqual(actual, expected);
+}
+
+// Checked against when the user doesn't exist, so response time doesn't
+// reveal which user names are valid
+let decoyHash: Promise<string> | null = null;
+
+export async function getUser(username: string): Promise<User | null> {
+  return kvGet<User>(userKey(normalizeUsername(username)));
+}
+
+export async function listUsers(): Promise<User[]> {
+  const users = await Promise.all((await kvScan("user:*")).map(key => kvGet<User>(key)));
+  return users
+    .filter((user): user is User => user !== null)
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+/** Create or replace an account. */
+export async function saveUser(input: { username: string; role: Role; password: string; totpSecret?: string }): Promise<User> {
+  const username = normalizeUsername(input.username);
+  if (!/^[a-z0-9._-]{2,50}$/.test(username)) {
+    throw new Error("User names are 2-50 characters: letters, digits, dot, dash, underscore");
+  }
+  if (input.password.length < 12) {
+    throw new Error("Passwords must be at least 12 characters");
+  }
+
+  const existing = await getUser(username);
+  const user: User = {
+    username,
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    ...(input.totpSecret ? { totpSecret: input.totpSecret } : {}),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+  };
+  await kvSet(userKey(username), user);
+  return user;
+}
+
+export async function setUserDisabled(username: string, disabled: boolean): Promise<boolean> {
+  const user = await getUser(username);
+  if (!user) return false;
+  await kvSet(userKey(user.username), { ...user, disabled });
+  return true;
+}
+
+/**
+ * Check a login attempt. Accounts with TOTP report `totp_required` only
+ * after the password matched, and never say which factor was wrong.
+ */
+export async function authenticate(username: string, password: string, totpCode?: string): Promise<AuthResult> {
+  const user = await getUser(username);
+  if (!user || user.disabled) {
+    decoyHash ??= hashPassword(randomBytes(16).toString("hex"));
+    await verifyPassword(password, await decoyHash);
+    return { status: "invalid" };
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) return { status: "invalid" };
+  if (!user.totpSecret) return { status: "ok", user };
+  if (!totpCode) return { status: "totp_required" };
+
+  const step = verifyTotp(user.totpSecret, totpCode);
+  if (step === null || step <= (user.totpLastStep ?? -1)) return { status: "invalid" };
+
+  await kvSet(userKey(user.username), { ...user, totpLastStep: step });
+  return { status: "ok", user };
+}
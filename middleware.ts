@@ -0,0 +1,36 @@
+// middleware.ts
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, sessionSecretConfigured, verifySessionToken } from "@/lib/session";
+import { can, requiredPermission } from "@/lib/roles";
+
+// Staff pages need a valid session cookie whose role holds the path's
+// permission (lib/roles.ts); anyone else is sent to the login form. The
+// operational endpoints under /api/admin use bearer tokens instead
+// (lib/admin-auth.ts), and the PDF and image routes also accept signed links,
+// so those check access themselves.
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const permission = requiredPermission(pathname);
+  if (!permission) return NextResponse.next();
+
+  if (!sessionSecretConfigured()) {
+    return new NextResponse("Authentication is not configured", { status: 503 });
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!session) {
+    const login = new URL("/admin/login", request.url);
+    login.searchParams.set("next", `${pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(login);
+  }
+
+  if (!can(session.role, permission)) {
+    return NextResponse.redirect(new URL("/admin?denied=1", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/admin", "/admin/:path*"],
+};
@@ -0,0 +1,55 @@
+// scripts/create-user.ts
+//
+// Create (or reset) a staff account for the /admin area.
+//
+//   npm run create-user -- <username> <owner|cohost|cleaner> [--totp]
+//   npm run create-user -- <username> --disable
+//
+// The password is read from USER_PASSWORD, or prompted for. With --totp a new
+// authenticator secret is generated and printed once as an otpauth:// URI.
+import { createInterface } from "readline/promises";
+import { isRole, ROLES } from "@/lib/roles";
+import { saveUser, setUserDisabled } from "@/lib/users";
+import { generateTotpSecret, totpUri } from "@/lib/totp";
+
+async function readPassword(): Promise<string> {
+  if (process.env.USER_PASSWORD) return process.env.USER_PASSWORD;
+
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await prompt.question("Password (min. 12 characters): ");
+  } finally {
+    prompt.close();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flags = new Set(args.filter(arg => arg.startsWith("--")));
+  const [username, role] = args.filter(arg => !arg.startsWith("--"));
+
+  if (username && flags.has("--disable")) {
+    if (!(await setUserDisabled(username, true))) throw new Error(`No user "${username}"`);
+    console.log(`Disabled ${username}`);
+    return;
+  }
+
+  if (!username || !isRole(role)) {
+    console.error(`Usage: npm run create-user -- <username> <${ROLES.join("|")}> [--totp]`);
+    process.exit(1);
+  }
+
+  const totpSecret = flags.has("--totp") ? generateTotpSecret() : undefined;
+  const user = await saveUser({ username, role, password: await readPassword(), totpSecret });
+
+  console.log(`Saved ${user.username} (${user.role})`);
+  if (totpSecret) {
+    console.log("Add this to an authenticator app (shown only once):");
+    console.log(`  ${totpUri(totpSecret, user.username)}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
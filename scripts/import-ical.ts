@@ -0,0 +1,51 @@
+// scripts/import-ical.ts
+//
+// Import listing calendars as bookings from the command line:
+//
+//   npm run import-ical                                                           # poll every property's feed
+//   npm run import-ical -- sea-point-loft scripts/fixtures/listing-calendar.ics   # one property, from a file
+import { readFile } from "fs/promises";
+import { getProperty } from "@/lib/properties";
+import { importCalendar, syncCalendars, type CalendarImportReport } from "@/lib/calendar-import";
+
+function print(report: CalendarImportReport) {
+  console.log(`${report.propertyId} (${report.source})`);
+  console.log(`  Events:    ${report.events}`);
+  console.log(`  Created:   ${report.created}`);
+  console.log(`  Updated:   ${report.updated}`);
+  console.log(`  Unchanged: ${report.unchanged}`);
+  console.log(`  Cancelled: ${report.cancelled}`);
+  console.log(`  Skipped:   ${report.skipped}`);
+}
+
+async function main() {
+  const [slug, file] = process.argv.slice(2).filter(arg => !arg.startsWith("--"));
+  const actor = `cli:${process.env.USER || "unknown"}`;
+
+  if (!slug) {
+    const results = await syncCalendars(actor);
+    if (results.length === 0) console.log("No property has a calendar feed.");
+    for (const result of results) {
+      if (result.report) print(result.report);
+      else console.error(`${result.propertyId}: ${result.error}`);
+    }
+    if (results.some(result => result.error)) process.exit(1);
+    return;
+  }
+
+  const property = await getProperty(slug);
+  if (!property) {
+    console.error(`Unknown property: ${slug}`);
+    process.exit(1);
+  }
+  if (!file) {
+    console.error("Usage: npm run import-ical -- <property> <file.ics>");
+    process.exit(1);
+  }
+  print(await importCalendar(property, await readFile(file, "utf8"), file, actor));
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+// scripts/migrate.ts
+//
+// Upgrade every stored guest record to the current schema version
+// (lib/records.ts). Records are also upgraded lazily when read, so this is
+// only needed to finish a migration in one go, e.g. before a release that
+// drops support for an old version.
+//
+//   npm run migrate
+import { CURRENT_SCHEMA_VERSION } from "@/lib/records";
+import { migrateAllSubmissions } from "@/lib/submissions";
+
+async function main() {
+  console.log(`Migrating guest records to schema version ${CURRENT_SCHEMA_VERSION}...`);
+  const report = await migrateAllSubmissions();
+
+  console.log(`Scanned:  ${report.scanned}`);
+  console.log(`Migrated: ${report.migrated}`);
+
+  if (report.failed.length > 0) {
+    console.error(`Failed (${report.failed.length}):\n  ${report.failed.join("\n  ")}`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+// scripts/purge.ts
+//
+// Apply the retention policy from the command line:
+//
+//   npm run purge -- --dry-run   # report only
+//   npm run purge                # minimise / delete what is due
+import { runRetention } from "@/lib/retention";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const report = await runRetention({ actor: `cli:${process.env.USER || "unknown"}`, dryRun });
+
+  console.log(`Purge report ${report.id}${dryRun ? " (dry run)" : ""}`);
+  console.log(`Scanned:     ${report.scanned}`);
+  console.log(`On hold:     ${report.heldRecordIds.length}`);
+  for (const action of report.actions) {
+    const fields = action.fields ? ` [${action.fields.join(", ")}]` : "";
+    console.log(`  ${action.action.padEnd(8)} ${action.recordId} (${action.rule})${fields}`);
+  }
+
+  if (report.errors.length > 0) {
+    console.error(`Errors (${report.errors.length}):`);
+    for (const error of report.errors) console.error(`  ${error.recordId}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+// scripts/rotate-keys.ts
+//
+// Re-wrap every guest record under ENCRYPTION_ACTIVE_KEY and encrypt any
+// records stored before encryption was enabled. Run with the same storage
+// and ENCRYPTION_KEYS environment as the app, old keys included:
+//
+//   ENCRYPTION_KEYS="new:...,old:..." ENCRYPTION_ACTIVE_KEY=new npm run rotate-keys
+//
+// Once it reports no failures the old key can be removed from ENCRYPTION_KEYS.
+import { activeKeyId } from "@/lib/encryption";
+import { rotateEncryptionKeys } from "@/lib/submissions";
+
+async function main() {
+  console.log(`Rotating guest records to master key "${activeKeyId()}"...`);
+  const report = await rotateEncryptionKeys();
+
+  console.log(`Scanned:   ${report.scanned}`);
+  console.log(`Rewrapped: ${report.rewrapped}`);
+  console.log(`Encrypted: ${report.encrypted}`);
+
+  if (report.failed.length > 0) {
+    console.error(`Failed (${report.failed.length}):\n  ${report.failed.join("\n  ")}`);
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});